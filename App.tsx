@@ -13,23 +13,77 @@ import {
   PresentationChartLineIcon,
   PlusIcon,
   FilmIcon,
-  TableCellsIcon
+  TableCellsIcon,
+  DocumentTextIcon,
+  ExclamationTriangleIcon,
+  AdjustmentsHorizontalIcon,
+  TrashIcon,
+  Bars3Icon,
+  ArchiveBoxArrowDownIcon,
+  SwatchIcon,
+  TagIcon,
+  ClockIcon,
+  FolderOpenIcon
 } from '@heroicons/react/24/outline';
-import { AppState, Complexity, GeneratedImage, AppMode, PresentationPage } from './types';
+import { AppState, BatchEditItem, BrandKit, Complexity, GeneratedImage, SlideTextLayer, TextLayerLayout, AppMode, PresentationPage, ImageAspect, ImageSize, ImageOutputOptions, OutputLanguage } from './types';
 import {
   generateInfographics,
+  generateAnimationChain,
   generateSuggestions,
   editInfographic,
+  editInfographicBatch,
   generatePresentationOutline,
-  generatePresentationPageImage
+  generatePresentationDeck,
+  rewriteOutlinePage,
+  setActiveBrandKit,
+  PageGenerationFailure,
+  VariationGenerationFailure
 } from './services/geminiService';
 import {
   uploadImagesToDrive,
   uploadImagesToDriveInFolder,
+  uploadTextFileToDriveInFolder,
+  uploadBlobToDriveInFolder,
   createFolderInDrive,
   signInToGoogle,
   isSignedIn
 } from './services/googleDriveService';
+import { getActiveProviderId } from './services/aiProvider';
+import {
+  createPageId,
+  createBlankPage,
+  formatSpeakerNotes,
+  movePage,
+  renumberPages,
+  parseJsonResponse,
+  validateOutline,
+  OutlineValidationError
+} from './services/outlineService';
+import { setPromptOverrides } from './services/promptTemplates';
+import PromptTemplateEditor from './components/PromptTemplateEditor';
+import CsvImportDialog from './components/CsvImportDialog';
+import { decodeCsv } from './services/csvImportService';
+import { parseMarkdownOutline } from './services/markdownImportService';
+import { exportOutline, OUTLINE_EXPORT_FORMATS, OutlineExportFormat } from './services/outlineExportService';
+import { downloadBlob, downloadTextFile, toSafeFileName } from './services/downloadService';
+import { createPptx } from './services/pptxExportService';
+import { createPdf, PdfSlide } from './services/pdfExportService';
+import { createProjectZip, ProjectExportImage } from './services/projectExportService';
+import PdfExportControls from './components/PdfExportControls';
+import AnimationExportPanel from './components/AnimationExportPanel';
+import BrandKitEditor from './components/BrandKitEditor';
+import BrandKitSelector from './components/BrandKitSelector';
+import { loadBrandKits, saveBrandKits } from './services/brandKitService';
+import SlideOverlayEditor from './components/SlideOverlayEditor';
+import { applySlideOverlays, DEFAULT_OVERLAY_SETTINGS, hasEnabledOverlay } from './services/slideOverlayService';
+import TextLayerEditor from './components/TextLayerEditor';
+import { TEXT_LAYER_LAYOUTS } from './services/textLayerService';
+import VersionHistoryDialog from './components/VersionHistoryDialog';
+import MaskEditor from './components/MaskEditor';
+import { createEditVersion, getVersionTree, replaceInSlot } from './services/versionHistoryService';
+import BatchEditDialog from './components/BatchEditDialog';
+import ProjectLibraryDialog from './components/ProjectLibraryDialog';
+import { createProjectId, getLastProjectId, isEmptyProject, loadProject, saveProject, setLastProjectId } from './services/projectStorageService';
 
 const INITIAL_STATE: AppState = {
   mode: AppMode.SINGLE,
@@ -44,7 +98,70 @@ const INITIAL_STATE: AppState = {
   aiSuggestions: [],
   referenceImage: null,
   presentationOutline: [],
-  isAnimationMode: false
+  isAnimationMode: false,
+  isSequentialAnimation: false,
+  aspectRatio: ImageAspect.LANDSCAPE,
+  imageSize: ImageSize.STANDARD,
+  language: OutputLanguage.JAPANESE,
+  promptOverrides: {},
+  talkDurationMinutes: 10,
+  brandKitId: null,
+  overlay: DEFAULT_OVERLAY_SETTINGS,
+  textLayerLayout: null,
+  imageVersions: []
+};
+
+const createBlankState = (mode: AppMode): AppState => ({
+  ...INITIAL_STATE,
+  mode: mode,
+  // Default counts differ by mode
+  imageCount: mode === AppMode.PRESENTATION ? 4 : 2
+});
+
+// Saved projects may predate newer fields, and a generation cannot still be running after a reload
+const toWorkingState = (saved: AppState): AppState => ({
+  ...INITIAL_STATE,
+  ...saved,
+  overlay: { ...DEFAULT_OVERLAY_SETTINGS, ...saved.overlay },
+  isGenerating: false
+});
+
+const LANGUAGE_OPTIONS = [
+  { value: OutputLanguage.JAPANESE, label: '日本語' },
+  { value: OutputLanguage.ENGLISH, label: 'English' },
+  { value: OutputLanguage.BILINGUAL, label: '日英併記' }
+];
+
+const ASPECT_OPTIONS = [
+  { value: ImageAspect.LANDSCAPE, label: '横長', hint: '16:9 スライド' },
+  { value: ImageAspect.SQUARE, label: '正方形', hint: '1:1 SNS投稿' },
+  { value: ImageAspect.PORTRAIT, label: '縦長', hint: '9:16 ストーリー' }
+];
+
+const SIZE_OPTIONS = [
+  { value: ImageSize.STANDARD, label: '1K', hint: '画面表示' },
+  { value: ImageSize.HIGH, label: '2K', hint: '高解像度' },
+  { value: ImageSize.PRINT, label: '4K', hint: '印刷用' }
+];
+
+// Outline fields an AI rewrite may change, in display order
+const REWRITABLE_PAGE_FIELDS: Array<{ key: keyof PresentationPage; label: string }> = [
+  { key: 'title', label: 'タイトル' },
+  { key: 'content', label: '内容' },
+  { key: 'visualCue', label: '視覚表現' },
+  { key: 'emphasis', label: '強調ポイント' },
+  { key: 'mood', label: '温度感' },
+  { key: 'speakerNotes', label: 'スピーカーノート' }
+];
+
+// Google Drive folder that project folders are created in
+const DRIVE_PARENT_FOLDER_ID = '1jHWaqo50qd68ko8fMoWtDbp7LQfG_0pA';
+
+// Tailwind classes for previewing images at their generated aspect ratio
+const ASPECT_CLASS: Record<ImageAspect, string> = {
+  [ImageAspect.LANDSCAPE]: 'aspect-video',
+  [ImageAspect.SQUARE]: 'aspect-square',
+  [ImageAspect.PORTRAIT]: 'aspect-[9/16]'
 };
 
 const App: React.FC = () => {
@@ -52,13 +169,60 @@ const App: React.FC = () => {
   const [apiKeyReady, setApiKeyReady] = useState<boolean>(false);
   const [editInstruction, setEditInstruction] = useState<string>('');
   const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [isMasking, setIsMasking] = useState<boolean>(false);
+  const [editMask, setEditMask] = useState<string | null>(null);
   const [isSavingToDrive, setIsSavingToDrive] = useState<boolean>(false);
   const [driveSaveStatus, setDriveSaveStatus] = useState<string>('');
+  const [deckProgress, setDeckProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [deckFailures, setDeckFailures] = useState<PageGenerationFailure[]>([]);
+  const [variationFailures, setVariationFailures] = useState<VariationGenerationFailure[]>([]);
+  const [regeneratingPageIds, setRegeneratingPageIds] = useState<string[]>([]);
+  const [pageDraft, setPageDraft] = useState<PresentationPage | null>(null);
+  const [showPromptEditor, setShowPromptEditor] = useState<boolean>(false);
+  const [brandKits, setBrandKits] = useState<BrandKit[]>(() => loadBrandKits());
+  const [showBrandKitEditor, setShowBrandKitEditor] = useState<boolean>(false);
+  const [showOverlayEditor, setShowOverlayEditor] = useState<boolean>(false);
+  const [overlaidUrls, setOverlaidUrls] = useState<Record<string, string>>({});
+  const [textLayerImageId, setTextLayerImageId] = useState<string | null>(null);
+  const [historyImageId, setHistoryImageId] = useState<string | null>(null);
+  const [csvImportFile, setCsvImportFile] = useState<File | null>(null);
+  const [pdfSlidesPerPage, setPdfSlidesPerPage] = useState<number>(0);
+  const [pdfSelectedIds, setPdfSelectedIds] = useState<string[]>([]);
+  const [showBatchEdit, setShowBatchEdit] = useState<boolean>(false);
+  const [batchEditItems, setBatchEditItems] = useState<BatchEditItem[]>([]);
+  const [projectId, setProjectId] = useState<string>(() => getLastProjectId() ?? createProjectId());
+  const [isProjectLoaded, setIsProjectLoaded] = useState<boolean>(false);
+  const [projectSaveStatus, setProjectSaveStatus] = useState<'saving' | 'saved' | 'error' | null>(null);
+  const [showProjectLibrary, setShowProjectLibrary] = useState<boolean>(false);
+  const savedStateRef = useRef<AppState | null>(null); // Last state written (or loaded), to skip redundant saves
+  const [isExportingPdf, setIsExportingPdf] = useState<boolean>(false);
+  const [chainProgress, setChainProgress] = useState<{ step: number; total: number } | null>(null);
+  const [chainFailedStep, setChainFailedStep] = useState<number | null>(null);
+  const [outlineError, setOutlineError] = useState<{ message: string; issues: string[] } | null>(null);
+  const [outlineWarnings, setOutlineWarnings] = useState<string[]>([]);
+  const [dragPageIndex, setDragPageIndex] = useState<number | null>(null);
+  const [pageRewrite, setPageRewrite] = useState<{
+    pageId: string;
+    instruction: string;
+    isLoading: boolean;
+    proposal: PresentationPage | null;
+    error: string | null;
+  } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const csvInputRef = useRef<HTMLInputElement>(null);
+  const markdownInputRef = useRef<HTMLInputElement>(null);
+
+  const imageOutput: ImageOutputOptions = { aspectRatio: state.aspectRatio, imageSize: state.imageSize };
 
   // --- API Key Management ---
   const checkApiKey = useCallback(async () => {
+    // モックプロバイダーはAPIキー不要
+    if (getActiveProviderId() === 'mock') {
+      console.log('Using mock AI provider (offline)');
+      setApiKeyReady(true);
+      return;
+    }
+
     // Vercel環境変数が設定されている場合は自動的に使用
     const envApiKey = import.meta.env.VITE_GEMINI_API_KEY;
     console.log('Environment check:', {
@@ -87,53 +251,233 @@ const App: React.FC = () => {
     checkApiKey();
   }, [checkApiKey]);
 
-  const handleSelectKey = async () => {
-    if ((window as any).aistudio) {
-      await (window as any).aistudio.openSelectKey();
-      await checkApiKey();
-    }
+  // Keep the prompt template module in sync with this project's overrides
+  useEffect(() => {
+    setPromptOverrides(state.promptOverrides);
+  }, [state.promptOverrides]);
+
+  // --- Project persistence (IndexedDB) ---
+  // Reopen the project that was open before the reload
+  useEffect(() => {
+    loadProject(projectId)
+      .then(saved => {
+        if (!saved) return;
+        const next = toWorkingState(saved);
+        savedStateRef.current = next;
+        setState(next);
+      })
+      .catch(error => console.error('Failed to reopen project', error))
+      .finally(() => setIsProjectLoaded(true));
+  }, []);
+
+  // Model requests write their results into the open project when they finish,
+  // so the project must not be switched while any of them is in flight
+  const isRequestRunning = state.isGenerating
+    || isEditing
+    || chainProgress !== null
+    || regeneratingPageIds.length > 0
+    || batchEditItems.some(item => item.status === 'pending')
+    || !!pageRewrite?.isLoading;
+
+  // Resolves false if the save failed (the status is also shown in the header)
+  const saveCurrentProject = (): Promise<boolean> => {
+    if (isEmptyProject(state) || state === savedStateRef.current) return Promise.resolve(true);
+    setProjectSaveStatus('saving');
+    const saving = state;
+    return saveProject(projectId, getExportTitle('無題のプロジェクト'), saving)
+      .then(() => {
+        savedStateRef.current = saving;
+        setLastProjectId(projectId);
+        setProjectSaveStatus('saved');
+        return true;
+      })
+      .catch(error => {
+        console.error('Project save failed', error);
+        setProjectSaveStatus('error');
+        return false;
+      });
   };
 
-  // --- Helpers ---
-
-  // Robust CSV Parser handling quotes and newlines within quotes
-  const parseCSV = (text: string): string[][] => {
-    const rows: string[][] = [];
-    let currentRow: string[] = [];
-    let currentVal = '';
-    let inQuote = false;
-
-    for (let i = 0; i < text.length; i++) {
-      const char = text[i];
-      const nextChar = text[i+1];
-
-      if (char === '"') {
-        if (inQuote && nextChar === '"') {
-          currentVal += '"';
-          i++; // skip next quote
-        } else {
-          inQuote = !inQuote;
-        }
-      } else if (char === ',' && !inQuote) {
-        currentRow.push(currentVal);
-        currentVal = '';
-      } else if ((char === '\r' || char === '\n') && !inQuote) {
-        if (char === '\r' && nextChar === '\n') i++;
-        currentRow.push(currentVal);
-        if (currentRow.length > 0 || currentVal) { // avoid empty lines
-           rows.push(currentRow);
-        }
-        currentRow = [];
-        currentVal = '';
-      } else {
-        currentVal += char;
+  // Before leaving the open project: save it, and ask before discarding it if that fails
+  const saveBeforeLeavingProject = async (): Promise<boolean> =>
+    (await saveCurrentProject()) || confirm('現在のプロジェクトを保存できませんでした。保存せずに続けますか？');
+
+  // Autosave, debounced so a burst of edits is written once; flushed at once when the tab is hidden or closed
+  useEffect(() => {
+    if (!isProjectLoaded) return;
+    const timer = setTimeout(saveCurrentProject, 1000);
+    const flush = () => {
+      clearTimeout(timer);
+      saveCurrentProject();
+    };
+    const flushWhenHidden = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', flushWhenHidden);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', flushWhenHidden);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [state, projectId, isProjectLoaded]);
+
+  // Swap in another project (or a blank one), dropping UI state that belongs to the previous project
+  const openWorkspace = (id: string, next: AppState) => {
+    savedStateRef.current = next;
+    setProjectId(id);
+    setState(next);
+    setProjectSaveStatus(null);
+    setDeckFailures([]);
+    setVariationFailures([]);
+    setBatchEditItems([]);
+    setPdfSelectedIds([]);
+    setPageDraft(null);
+    setChainFailedStep(null);
+    setEditInstruction('');
+    setIsMasking(false);
+    setEditMask(null);
+  };
+
+  const handleOpenProject = async (id: string) => {
+    if (isRequestRunning || !(await saveBeforeLeavingProject())) return;
+    try {
+      const saved = await loadProject(id);
+      if (!saved) {
+        alert("プロジェクトが見つかりませんでした。");
+        return;
       }
+      openWorkspace(id, toWorkingState(saved));
+      setLastProjectId(id);
+      setShowProjectLibrary(false);
+    } catch (error) {
+      console.error('Failed to open project', error);
+      alert("プロジェクトを開けませんでした。");
+    }
+  };
+
+  const handleShowProjectLibrary = async () => {
+    if (isRequestRunning) return;
+    await saveCurrentProject(); // So the library lists the latest state of this project
+    setShowProjectLibrary(true);
+  };
+
+  const handleProjectDeleted = (id: string) => {
+    if (id === projectId) openWorkspace(createProjectId(), createBlankState(state.mode));
+  };
+
+  const activeBrandKit = brandKits.find(kit => kit.id === state.brandKitId) ?? null;
+
+  // Every prompt built in geminiService follows the selected brand kit
+  useEffect(() => {
+    setActiveBrandKit(activeBrandKit);
+  }, [activeBrandKit]);
+
+  const handleBrandKitsChange = (kits: BrandKit[]) => {
+    try {
+      saveBrandKits(kits);
+    } catch (error: any) {
+      alert(error.message);
+      return;
     }
-    if (currentVal || currentRow.length > 0) {
-      currentRow.push(currentVal);
-      rows.push(currentRow);
+    setBrandKits(kits);
+    if (state.brandKitId && !kits.some(kit => kit.id === state.brandKitId)) {
+      setState(prev => ({ ...prev, brandKitId: null }));
+    }
+  };
+
+  // --- Slide overlays (logo, page number, footer, date) ---
+  const overlayLogo = state.overlay.logo.image ?? activeBrandKit?.logo ?? null;
+
+  const getOverlayPageNumber = (image: GeneratedImage): number | undefined =>
+    state.presentationOutline.find(page => page.id === image.pageId)?.pageNumber;
+
+  // Slide as it is shown and exported; the original stays in generatedImages for edits
+  const renderSlide = (image: GeneratedImage): Promise<string> =>
+    applySlideOverlays(image, state.overlay, { pageNumber: getOverlayPageNumber(image), logo: overlayLogo, date: new Date() });
+
+  // Text layers and overlays are flattened for display (images without either keep their original URL)
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(state.generatedImages.map(async image => [image.id, await renderSlide(image)] as const))
+      .then(entries => { if (!cancelled) setOverlaidUrls(Object.fromEntries(entries)); })
+      .catch(error => console.error('Overlay compositing failed', error));
+    return () => { cancelled = true; };
+  }, [state.generatedImages, state.overlay, state.presentationOutline, overlayLogo]);
+
+  const displayUrl = (image: GeneratedImage): string => overlaidUrls[image.id] ?? image.url;
+
+  const textLayerImage = state.generatedImages.find(img => img.id === textLayerImageId && img.textLayer);
+
+  const historyImage = state.generatedImages.find(img => img.id === historyImageId);
+
+  const getVersionCount = (image: GeneratedImage) => getVersionTree(image, state.imageVersions).length;
+
+  // Restore an earlier version into the slot the history was opened for
+  const handleRevertVersion = (versionId: string) => {
+    if (!historyImage) return;
+    const version = state.imageVersions.find(img => img.id === versionId);
+    if (!version) return;
+    setState(prev => ({
+      ...prev,
+      ...replaceInSlot(prev, historyImage.id, version),
+      selectedImageId: prev.selectedImageId === historyImage.id ? version.id : prev.selectedImageId
+    }));
+    setPdfSelectedIds(prev => prev.map(id => id === historyImage.id ? version.id : id));
+    setHistoryImageId(version.id);
+  };
+
+  // Same instruction over several slides; results stay candidates until accepted one by one
+  const handleRunBatchEdit = async (instruction: string, imageIds: string[]) => {
+    const sources = state.generatedImages.filter(img => imageIds.includes(img.id));
+    setBatchEditItems(sources.map(source => ({ sourceId: source.id, status: 'pending' })));
+    await editInfographicBatch(sources, instruction, imageOutput, state.language, ({ sourceId, image, error }) => {
+      const source = sources.find(img => img.id === sourceId) as GeneratedImage;
+      setBatchEditItems(prev => prev.map(item => item.sourceId !== sourceId ? item : image
+        ? { ...item, status: 'done', result: createEditVersion(source, image, `[一括編集] ${instruction}`) }
+        : { ...item, status: 'failed', error }));
+    });
+  };
+
+  const handleAcceptBatchEdits = (sourceIds: string[]) => {
+    const accepted = batchEditItems.filter(item => sourceIds.includes(item.sourceId) && item.status === 'done' && item.result);
+    setState(prev => accepted.reduce<AppState>((next, item) => ({
+      ...next,
+      ...replaceInSlot(next, item.sourceId, item.result as GeneratedImage)
+    }), prev));
+    setPdfSelectedIds(prev => prev.map(id => accepted.find(item => item.sourceId === id)?.result?.id ?? id));
+    setBatchEditItems(prev => prev.map(item => accepted.includes(item) ? { ...item, status: 'accepted' } : item));
+  };
+
+  const handleDiscardBatchEdits = (sourceIds: string[]) => {
+    setBatchEditItems(prev => prev.map(item =>
+      sourceIds.includes(item.sourceId) && item.status === 'done' ? { ...item, status: 'discarded' } : item
+    ));
+  };
+
+  const handleSaveTextLayer = (layer: SlideTextLayer) => {
+    setState(prev => ({
+      ...prev,
+      generatedImages: prev.generatedImages.map(img => img.id === textLayerImageId ? { ...img, textLayer: layer } : img)
+    }));
+    setTextLayerImageId(null);
+  };
+
+  // Selecting a kit also applies its default complexity
+  const handleSelectBrandKit = (id: string | null) => {
+    const kit = brandKits.find(k => k.id === id);
+    setState(prev => ({
+      ...prev,
+      brandKitId: id,
+      complexity: kit ? kit.defaultComplexity : prev.complexity
+    }));
+  };
+
+  const handleSelectKey = async () => {
+    if ((window as any).aistudio) {
+      await (window as any).aistudio.openSelectKey();
+      await checkApiKey();
     }
-    return rows;
   };
 
   // --- Handlers ---
@@ -151,104 +495,217 @@ const App: React.FC = () => {
 
   const handleCsvUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    if (file) setCsvImportFile(file);
+    // Reset input
+    if (csvInputRef.current) csvInputRef.current.value = "";
+  };
+
+  // Shared entry point for outlines loaded from files: skip AI outline generation, go to review
+  const applyImportedOutline = (pages: PresentationPage[], warnings: string[] = []) => {
+    setOutlineError(null);
+    setOutlineWarnings(warnings);
+    setState(prev => ({
+      ...prev,
+      presentationOutline: pages,
+      imageCount: pages.length,
+      step: 2
+    }));
+  };
+
+  const handleCsvImport = (pages: PresentationPage[]) => {
+    setCsvImportFile(null);
+    applyImportedOutline(pages);
+  };
+
+  const handleMarkdownUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset input
+    if (markdownInputRef.current) markdownInputRef.current.value = "";
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
-      if (!text) return;
-
-      try {
-        const rows = parseCSV(text);
-        if (rows.length === 0) return;
-
-        // Determine if first row is header
-        // Heuristic: check if first col contains "スライド" or "Slide" or "No"
-        let startIndex = 0;
-        const header = rows[0].map(c => c.toLowerCase());
-        if (header[0].includes('スライド') || header[0].includes('slide') || header[1].includes('タイトル') || header[1].includes('title')) {
-           startIndex = 1;
-        }
+    try {
+      const { text } = decodeCsv(await file.arrayBuffer());
+      // JSON exported from step 2 goes through the same validation as generated outlines
+      const { pages, issues } = file.name.toLowerCase().endsWith('.json')
+        ? validateOutline(parseJsonResponse(text))
+        : parseMarkdownOutline(text);
+      if (pages.length === 0) {
+        setOutlineError({ message: '文書から構成を読み込めませんでした。見出し（# / ##）ごとに1ページとして記述してください。', issues });
+        return;
+      }
+      applyImportedOutline(pages, issues);
+    } catch (err) {
+      console.error(err);
+      setOutlineError({ message: '文書の読み込みに失敗しました。', issues: [] });
+    }
+  };
 
-        const newOutline: PresentationPage[] = [];
-
-        for (let i = startIndex; i < rows.length; i++) {
-          const cols = rows[i];
-          // Expect at least: SlideNum, Title, Content.
-          // If 2 cols, assume Title, Content.
-
-          let pageNum = newOutline.length + 1;
-          let title = "";
-          let content = "";
-
-          if (cols.length >= 3) {
-             pageNum = parseInt(cols[0]) || pageNum;
-             title = cols[1];
-             content = cols[2];
-          } else if (cols.length === 2) {
-             title = cols[0];
-             content = cols[1];
-          } else if (cols.length === 1) {
-             content = cols[0];
-          }
+  // Document title for exported files: first line of the prompt, else the first page title
+  const getExportTitle = (fallback: string) =>
+    state.prompt.split('\n')[0].trim().substring(0, 60) || state.presentationOutline[0]?.title || fallback;
 
-          if (title || content) {
-             newOutline.push({
-                pageNumber: pageNum,
-                title: title.trim(),
-                content: content.trim(),
-                visualCue: "",
-                emphasis: "",
-                mood: ""
-             });
-          }
+  const handleExportOutline = (format: OutlineExportFormat) => {
+    const { extension, mimeType } = OUTLINE_EXPORT_FORMATS[format];
+    downloadTextFile(
+      exportOutline(state.presentationOutline, format, state.prompt),
+      `${toSafeFileName(getExportTitle('プレゼン構成'))}_構成.${extension}`,
+      mimeType
+    );
+  };
+
+  const handleDownloadPptx = async () => {
+    // スライドはページ順に、生成済みのページのみ
+    const slides = await Promise.all(deckSlides.flatMap(({ page, image }) => image ? [{ page, image }] : []).map(async ({ page, image }) => ({
+      title: page.title,
+      imageUrl: await renderSlide(image),
+      notes: page.speakerNotes || page.content
+    })));
+    if (slides.length === 0) {
+      alert('ダウンロードするスライドがありません');
+      return;
+    }
+    const title = getExportTitle('プレゼン資料');
+    downloadBlob(createPptx(slides, { title, aspectRatio: state.aspectRatio }), `${toSafeFileName(title)}.pptx`);
+  };
+
+  const handleExportPdf = async (slides: PdfSlide[]) => {
+    if (slides.length === 0) {
+      alert('PDFに含める画像がありません');
+      return;
+    }
+    setIsExportingPdf(true);
+    try {
+      const title = getExportTitle(state.mode === AppMode.PRESENTATION ? 'プレゼン資料' : '1枚絵');
+      const blob = await createPdf(slides, {
+        slidesPerPage: pdfSlidesPerPage,
+        metadata: {
+          title,
+          subject: state.prompt.trim().substring(0, 500),
+          keywords: state.stylePreferences.trim()
         }
+      });
+      downloadBlob(blob, `${toSafeFileName(title)}.pdf`);
+    } catch (error) {
+      console.error(error);
+      alert('PDFの作成に失敗しました');
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  const handleExportDeckPdf = async () =>
+    handleExportPdf(await Promise.all(deckSlides.flatMap(({ page, image }) => image ? [{ page, image }] : []).map(async ({ page, image }) => ({
+      imageUrl: await renderSlide(image),
+      title: `${page.pageNumber}. ${page.title}`,
+      text: page.speakerNotes ? `${page.content}\n\n【スピーカーノート】\n${page.speakerNotes}` : page.content
+    }))));
+
+  // 選択した案のみ（未選択なら全案）
+  const handleExportVariationsPdf = async () => {
+    const selected = state.generatedImages.filter(img => pdfSelectedIds.includes(img.id));
+    const images = selected.length > 0 ? selected : state.generatedImages;
+    return handleExportPdf(await Promise.all(images.map(async img => ({
+      imageUrl: await renderSlide(img),
+      title: `案 ${state.generatedImages.indexOf(img) + 1}`,
+      text: state.prompt
+    }))));
+  };
+
+  const togglePdfSelection = (id: string) => {
+    setPdfSelectedIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]);
+  };
 
-        if (newOutline.length > 0) {
-           setState(prev => ({
-              ...prev,
-              presentationOutline: newOutline,
-              imageCount: newOutline.length,
-              step: 2 // Skip AI outline generation, go to review
-           }));
-        } else {
-           alert("有効なデータが見つかりませんでした。");
+  // Animation mode (sequential): generate steps fromStep..imageCount, each built on the previous step's image
+  const runAnimationChain = async (fromStep: number, previousStep: GeneratedImage | null) => {
+    const total = state.imageCount;
+    setChainFailedStep(null);
+    setChainProgress({ step: fromStep, total });
+    try {
+      const { failedStep } = await generateAnimationChain(
+        state.prompt,
+        state.complexity,
+        state.stylePreferences,
+        total,
+        state.referenceImage,
+        imageOutput,
+        state.language,
+        fromStep,
+        previousStep,
+        (image) => {
+          setState(prev => ({ ...prev, generatedImages: [...prev.generatedImages, image] }));
+          setChainProgress({ step: Math.min(total, (image.animationStep || fromStep) + 1), total });
         }
-      } catch (err) {
-        console.error(err);
-        alert("CSVの読み込みに失敗しました。");
+      );
+      if (failedStep !== null) {
+        setChainFailedStep(failedStep);
+        alert(`ステップ${failedStep}の生成に失敗しました。ステップ${failedStep}から再開できます。`);
       }
-    };
-    reader.readAsText(file);
-    // Reset input
-    if (csvInputRef.current) csvInputRef.current.value = "";
+    } finally {
+      setChainProgress(null);
+      setState(prev => ({ ...prev, isGenerating: false }));
+    }
+  };
+
+  // Regenerate the chain from a step, replacing that step and everything after it
+  const handleRestartChain = async (fromStep: number) => {
+    const previousStep = fromStep > 1 ? animationSteps.find(img => img.animationStep === fromStep - 1) : null;
+    if (previousStep === undefined) {
+      alert(`ステップ${fromStep - 1}の画像がないため、ステップ${fromStep}から再生成できません。`);
+      return;
+    }
+
+    setState(prev => {
+      const generatedImages = prev.generatedImages.filter(img => img.animationStep === undefined || img.animationStep < fromStep);
+      return {
+        ...prev,
+        generatedImages,
+        selectedImageId: generatedImages.some(img => img.id === prev.selectedImageId) ? prev.selectedImageId : null,
+        isGenerating: true
+      };
+    });
+    setPdfSelectedIds([]);
+    await runAnimationChain(fromStep, previousStep);
   };
 
   // Single Image Flow Generation
   const handleGenerateSingle = async () => {
     if (!state.prompt) return;
 
+    setPdfSelectedIds([]);
+    setVariationFailures([]);
+    if (state.isAnimationMode && state.isSequentialAnimation) {
+      // Steps appear one by one in the result view as the chain progresses
+      setState(prev => ({ ...prev, generatedImages: [], imageVersions: [], selectedImageId: null, aiSuggestions: [], step: 2, isGenerating: true }));
+      await runAnimationChain(1, null);
+      return;
+    }
+
+    setChainFailedStep(null);
     setState(prev => ({ ...prev, isGenerating: true }));
 
     try {
-      const images = await generateInfographics(
+      const { images, failures } = await generateInfographics(
         state.prompt,
         state.complexity,
         state.stylePreferences,
         state.imageCount,
         state.referenceImage,
-        state.isAnimationMode
+        state.isAnimationMode,
+        imageOutput,
+        state.language
       );
 
       // Parallel fetch suggestions only if not animation mode (to save tokens)
       let suggestions: string[] = [];
       if (!state.isAnimationMode) {
-        suggestions = await generateSuggestions(state.prompt);
+        suggestions = await generateSuggestions(state.prompt, state.language);
       }
 
+      setVariationFailures(failures);
       setState(prev => ({
         ...prev,
         generatedImages: images,
+        imageVersions: [],
         aiSuggestions: suggestions,
         step: 2,
         isGenerating: false
@@ -264,17 +721,31 @@ const App: React.FC = () => {
   const handleGenerateOutline = async () => {
     if (!state.prompt) return;
     setState(prev => ({ ...prev, isGenerating: true }));
+    setOutlineError(null);
+    setOutlineWarnings([]);
     try {
-      const outline = await generatePresentationOutline(state.prompt, state.imageCount, state.complexity);
+      const { pages, warnings } = await generatePresentationOutline(
+        state.prompt,
+        state.imageCount,
+        state.complexity,
+        state.language,
+        state.talkDurationMinutes
+      );
+      setOutlineWarnings(warnings);
       setState(prev => ({
         ...prev,
-        presentationOutline: outline,
+        presentationOutline: pages,
         isGenerating: false,
         step: 2 // Move to outline review
       }));
-    } catch (error) {
+    } catch (error: any) {
       console.error(error);
-      alert("構成案の作成に失敗しました。");
+      setOutlineError({
+        message: error instanceof OutlineValidationError
+          ? error.message
+          : `構成案の作成に失敗しました: ${error?.message || '不明なエラー'}`,
+        issues: error instanceof OutlineValidationError ? error.issues : []
+      });
       setState(prev => ({ ...prev, isGenerating: false }));
     }
   };
@@ -282,18 +753,26 @@ const App: React.FC = () => {
   // Presentation Flow: Step 2 -> Generate Slides
   const handleGenerateDeck = async () => {
     setState(prev => ({ ...prev, isGenerating: true }));
+    setDeckFailures([]);
+    setDeckProgress({ completed: 0, total: state.presentationOutline.length });
     try {
-      // Generate all pages in parallel (or sequential if rate limits issue, but usually parallel is fine for 4-5 pages)
-      const imagePromises = state.presentationOutline.map(page =>
-        generatePresentationPageImage(page, state.stylePreferences, state.referenceImage)
+      // Requests are queued by the shared scheduler (concurrency limit + retry with backoff)
+      const { images, failures } = await generatePresentationDeck(
+        state.presentationOutline,
+        state.stylePreferences,
+        state.referenceImage,
+        imageOutput,
+        state.language,
+        state.textLayerLayout,
+        (completed, total) => setDeckProgress({ completed, total })
       );
 
-      const results = await Promise.all(imagePromises);
-      const validImages = results.filter((img): img is GeneratedImage => img !== null);
-
+      setDeckFailures(failures);
+      setBatchEditItems([]);
       setState(prev => ({
         ...prev,
-        generatedImages: validImages,
+        generatedImages: images,
+        imageVersions: [],
         step: 3, // Move to final view
         isGenerating: false
       }));
@@ -301,23 +780,67 @@ const App: React.FC = () => {
        console.error(error);
        alert("スライド画像の生成に失敗しました。");
        setState(prev => ({ ...prev, isGenerating: false }));
+    } finally {
+      setDeckProgress(null);
+    }
+  };
+
+  // Presentation Flow: Step 3 -> Regenerate one slide (optionally with an edited outline row)
+  const handleRegeneratePage = async (page: PresentationPage) => {
+    const original = state.presentationOutline.find(p => p.id === page.id);
+    const isEdited = !!original && JSON.stringify(original) !== JSON.stringify(page);
+    setPageDraft(null);
+    setRegeneratingPageIds(prev => [...prev, page.id]);
+    setState(prev => ({
+      ...prev,
+      presentationOutline: prev.presentationOutline.map(p => p.id === page.id ? page : p)
+    }));
+
+    try {
+      const { images, failures } = await generatePresentationDeck([page], state.stylePreferences, state.referenceImage, imageOutput, state.language, state.textLayerLayout);
+      const newImage = images[0];
+
+      setDeckFailures(prev => [...prev.filter(f => f.pageId !== page.id), ...failures].sort((a, b) => a.pageNumber - b.pageNumber));
+      if (newImage) {
+        setState(prev => {
+          const existing = prev.generatedImages.find(img => img.pageId === page.id);
+          if (!existing) {
+            return { ...prev, generatedImages: [...prev.generatedImages, newImage] };
+          }
+          // Replace only this page's slide, keeping the previous one in its history
+          const version: GeneratedImage = { ...newImage, parentId: existing.id, editInstruction: isEdited ? '構成を編集して再生成' : '再生成' };
+          return { ...prev, ...replaceInSlot(prev, existing.id, version) };
+        });
+      }
+    } finally {
+      setRegeneratingPageIds(prev => prev.filter(id => id !== page.id));
     }
   };
 
   const handleEditImage = async () => {
     const selectedImage = state.generatedImages.find(img => img.id === state.selectedImageId);
     if (!selectedImage || !editInstruction) return;
+    if (isMasking && !editMask) {
+      alert("編集する範囲を塗ってください。");
+      return;
+    }
 
     setIsEditing(true);
     try {
-      const newImage = await editInfographic(selectedImage.url, editInstruction);
+      const mask = isMasking ? editMask : null;
+      // Edits keep the source's aspect and size even if the step-1 settings changed since
+      const newImage = await editInfographic(selectedImage.url, editInstruction, selectedImage.output ?? imageOutput, state.language, mask);
       if (newImage) {
+        // The edit becomes a child version that takes the source image's place
+        const version = createEditVersion(selectedImage, newImage, mask ? `[範囲指定] ${editInstruction}` : editInstruction);
         setState(prev => ({
           ...prev,
-          generatedImages: [newImage, ...prev.generatedImages], // Add new version to front
-          selectedImageId: newImage.id
+          ...replaceInSlot(prev, selectedImage.id, version),
+          selectedImageId: version.id
         }));
         setEditInstruction('');
+        setEditMask(null);
+        setIsMasking(false);
       }
     } catch (error) {
       console.error("Edit error", error);
@@ -335,22 +858,125 @@ const App: React.FC = () => {
      setState(prev => ({ ...prev, step }));
   };
 
-  const switchMode = (mode: AppMode) => {
-    setState({
-      ...INITIAL_STATE,
-      mode: mode,
-      // Default counts differ by mode
-      imageCount: mode === AppMode.PRESENTATION ? 4 : 2
-    });
+  // Starting over opens a new project; the current one stays in the library
+  const switchMode = async (mode: AppMode) => {
+    if (isRequestRunning || !(await saveBeforeLeavingProject())) return;
+    openWorkspace(createProjectId(), createBlankState(mode));
   };
 
   const handleOutlineChange = (index: number, field: keyof PresentationPage, value: string) => {
     const newOutline = [...state.presentationOutline];
-    if (field === 'pageNumber') return; // Read only
+    if (field === 'pageNumber' || field === 'id') return; // Read only
     (newOutline[index] as any)[field] = value;
     setState(prev => ({ ...prev, presentationOutline: newOutline }));
   };
 
+  // Structural outline edits: renumber pages and keep the page count in sync
+  const updateOutlineStructure = (update: (pages: PresentationPage[]) => PresentationPage[]) => {
+    setState(prev => {
+      const presentationOutline = renumberPages(update(prev.presentationOutline));
+      return { ...prev, presentationOutline, imageCount: presentationOutline.length };
+    });
+  };
+
+  const handleInsertPage = (index: number) => {
+    updateOutlineStructure(pages => [...pages.slice(0, index), createBlankPage(), ...pages.slice(index)]);
+  };
+
+  const handleDuplicatePage = (index: number) => {
+    updateOutlineStructure(pages => [
+      ...pages.slice(0, index + 1),
+      { ...pages[index], id: createPageId() },
+      ...pages.slice(index + 1)
+    ]);
+  };
+
+  const handleDeletePage = (index: number) => {
+    if (state.presentationOutline.length <= 1) return;
+    updateOutlineStructure(pages => pages.filter((_, i) => i !== index));
+  };
+
+  const handlePageDrop = (targetIndex: number) => {
+    if (dragPageIndex === null) return;
+    const from = dragPageIndex;
+    setDragPageIndex(null);
+    updateOutlineStructure(pages => movePage(pages, from, targetIndex));
+  };
+
+  // Presentation slides in outline order, matched by page id (image is undefined if the page failed)
+  const deckSlides = state.presentationOutline.map(page => ({
+    page,
+    image: state.generatedImages.find(img => img.pageId === page.id)
+  }));
+
+  // Images in export order with the file names shared by the Drive upload and the ZIP download
+  const exportImages: ProjectExportImage[] = state.mode === AppMode.PRESENTATION
+    // スライドはページ順に、生成済みのページのみ
+    ? deckSlides.flatMap(({ page, image }, idx) => image ? [{
+        image,
+        page,
+        name: `${String(idx + 1).padStart(2, '0')}_${(page.title || 'スライド').replace(/[^\w\s]/g, '_')}.png`
+      }] : [])
+    : state.generatedImages.map((image, idx) => ({
+        image,
+        name: `画像_${String(idx + 1).padStart(2, '0')}.png`
+      }));
+
+  // Animation mode: generated build steps in step order (edited copies are not steps)
+  const animationSteps = state.generatedImages
+    .filter(img => img.animationStep !== undefined)
+    .sort((a, b) => (a.animationStep as number) - (b.animationStep as number));
+
+  // フォルダ名を生成（yymmdd_{作成物の概要}）
+  const getExportFolderName = () => {
+    const now = new Date();
+    const yymmdd = `${String(now.getFullYear()).slice(-2)}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
+    const summary = state.mode === AppMode.PRESENTATION
+      ? state.prompt || state.presentationOutline[0]?.title || 'プレゼン資料'
+      : state.prompt || '1枚絵';
+    return `${yymmdd}_${summary.substring(0, 30).replace(/[^\w\s]/g, '_')}`;
+  };
+
+  // exportImages with the slide overlays applied
+  const renderExportImages = (): Promise<ProjectExportImage[]> =>
+    Promise.all(exportImages.map(async item => ({ ...item, image: { ...item.image, url: await renderSlide(item.image) } })));
+
+  const handleDownloadZip = async () => {
+    if (exportImages.length === 0) {
+      alert('保存する画像がありません');
+      return;
+    }
+    const folderName = getExportFolderName();
+    downloadBlob(createProjectZip(state, await renderExportImages(), folderName), `${folderName}.zip`);
+  };
+
+  // Presentation Flow: Step 2 -> AI rewrite of one page (proposal must be accepted explicitly)
+  const handleRewritePage = async () => {
+    if (!pageRewrite || !pageRewrite.instruction) return;
+    const { pageId, instruction } = pageRewrite;
+    setPageRewrite(prev => prev && { ...prev, isLoading: true, proposal: null, error: null });
+    try {
+      const proposal = await rewriteOutlinePage(state.prompt, state.presentationOutline, pageId, instruction, state.language);
+      setPageRewrite(prev => prev?.pageId === pageId ? { ...prev, isLoading: false, proposal } : prev);
+    } catch (error: any) {
+      console.error("Rewrite error", error);
+      const issues = error instanceof OutlineValidationError ? `（${error.issues.join(' / ')}）` : '';
+      setPageRewrite(prev => prev?.pageId === pageId
+        ? { ...prev, isLoading: false, error: `書き直しに失敗しました: ${error?.message || '不明なエラー'}${issues}` }
+        : prev);
+    }
+  };
+
+  const handleAcceptRewrite = () => {
+    const proposal = pageRewrite?.proposal;
+    if (!proposal) return;
+    setState(prev => ({
+      ...prev,
+      presentationOutline: prev.presentationOutline.map(page => page.id === proposal.id ? { ...proposal, pageNumber: page.pageNumber } : page)
+    }));
+    setPageRewrite(null);
+  };
+
   // Google Drive保存ハンドラー
   const handleSaveToDrive = async () => {
     console.log('handleSaveToDrive called');
@@ -390,44 +1016,24 @@ const App: React.FC = () => {
         await signInToGoogle();
       }
 
-      // フォルダ名を生成（yymmdd_{作成物の概要}）
-      const now = new Date();
-      const yymmdd = `${String(now.getFullYear()).slice(-2)}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
-
-      let folderName = '';
-      if (state.mode === AppMode.PRESENTATION) {
-        const summary = state.prompt || state.presentationOutline[0]?.title || 'プレゼン資料';
-        folderName = `${yymmdd}_${summary.substring(0, 30).replace(/[^\w\s]/g, '_')}`;
-      } else {
-        const summary = state.prompt || '1枚絵';
-        folderName = `${yymmdd}_${summary.substring(0, 30).replace(/[^\w\s]/g, '_')}`;
-      }
+      const folderName = getExportFolderName();
 
       setDriveSaveStatus('フォルダ作成中...');
       console.log('Creating folder:', folderName);
-      const folderId = await createFolderInDrive(folderName, '1jHWaqo50qd68ko8fMoWtDbp7LQfG_0pA');
+      const folderId = await createFolderInDrive(folderName, DRIVE_PARENT_FOLDER_ID);
       console.log('Folder created with ID:', folderId);
 
       // 画像をアップロード
-      const imagesToUpload = state.generatedImages.map((img, idx) => {
-        let fileName = '';
-        if (state.mode === AppMode.PRESENTATION) {
-          const pageInfo = state.presentationOutline[idx];
-          fileName = pageInfo
-            ? `${String(idx + 1).padStart(2, '0')}_${pageInfo.title.replace(/[^\w\s]/g, '_')}.png`
-            : `${String(idx + 1).padStart(2, '0')}_スライド.png`;
-        } else {
-          fileName = `画像_${String(idx + 1).padStart(2, '0')}.png`;
-        }
-        return {
-          url: img.url,
-          name: fileName
-        };
-      });
+      const imagesToUpload = (await renderExportImages()).map(({ image, name }) => ({ url: image.url, name }));
 
       setDriveSaveStatus('アップロード中...');
       const fileUrls = await uploadImagesToDriveInFolder(imagesToUpload, folderId);
 
+      // スピーカーノートも一緒に保存
+      if (state.mode === AppMode.PRESENTATION && state.presentationOutline.some(page => page.speakerNotes)) {
+        await uploadTextFileToDriveInFolder(formatSpeakerNotes(state.presentationOutline), 'スピーカーノート.txt', folderId);
+      }
+
       const folderUrl = `https://drive.google.com/drive/folders/${folderId}`;
       setDriveSaveStatus(`✅ ${fileUrls.length}枚の画像をGoogleドライブに保存しました`);
       alert(`${fileUrls.length}枚の画像をGoogleドライブに保存しました！\nフォルダ: ${folderUrl}`);
@@ -457,6 +1063,30 @@ const App: React.FC = () => {
     }
   };
 
+  // Upload one exported file (e.g. an animation) into a new project folder
+  const handleUploadFileToDrive = async (blob: Blob, fileName: string) => {
+    if (!import.meta.env.VITE_GOOGLE_CLIENT_ID) {
+      alert('Google Client IDが設定されていません。Vercelの環境変数VITE_GOOGLE_CLIENT_IDを設定してください。');
+      setDriveSaveStatus('❌ Google Client IDが設定されていません');
+      return;
+    }
+    setDriveSaveStatus('');
+    try {
+      if (!(await isSignedIn())) {
+        await signInToGoogle();
+      }
+      setDriveSaveStatus('フォルダ作成中...');
+      const folderId = await createFolderInDrive(getExportFolderName(), DRIVE_PARENT_FOLDER_ID);
+      setDriveSaveStatus('アップロード中...');
+      await uploadBlobToDriveInFolder(blob, fileName, folderId);
+      setDriveSaveStatus(`✅ ${fileName} をGoogleドライブに保存しました`);
+    } catch (error: any) {
+      console.error('Google Drive保存エラー:', error);
+      setDriveSaveStatus('❌ 保存に失敗しました');
+      alert(`Googleドライブへの保存に失敗しました\n\n${error?.message || '不明なエラー'}`);
+    }
+  };
+
   // --- Renders ---
 
   if (!apiKeyReady) {
@@ -488,13 +1118,18 @@ const App: React.FC = () => {
   }
 
   const selectedImage = state.generatedImages.find(img => img.id === state.selectedImageId);
+  const overlayPreviewImage = selectedImage ?? state.generatedImages[0] ?? null;
 
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col font-sans text-gray-800">
       {/* Header */}
       <header className="bg-white border-b border-gray-200 sticky top-0 z-50">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
-          <div className="flex items-center gap-2 cursor-pointer" onClick={() => window.location.reload()}>
+          <div
+            className={`flex items-center gap-2 ${isRequestRunning ? 'cursor-not-allowed' : 'cursor-pointer'}`}
+            onClick={() => switchMode(state.mode)}
+            title="新しく作成 (現在のプロジェクトは保存されます)"
+          >
             <div className="bg-purple-600 p-1.5 rounded-lg">
               <PhotoIcon className="w-6 h-6 text-white" />
             </div>
@@ -505,14 +1140,18 @@ const App: React.FC = () => {
           <div className="flex bg-gray-100 p-1 rounded-lg">
             <button
               onClick={() => switchMode(AppMode.SINGLE)}
-              className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${state.mode === AppMode.SINGLE ? 'bg-white text-purple-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              disabled={isRequestRunning}
+              title={isRequestRunning ? '生成・編集が終わるまで切り替えできません' : undefined}
+              className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed ${state.mode === AppMode.SINGLE ? 'bg-white text-purple-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
             >
               <DocumentDuplicateIcon className="w-4 h-4" />
               1枚絵を作る
             </button>
             <button
               onClick={() => switchMode(AppMode.PRESENTATION)}
-              className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${state.mode === AppMode.PRESENTATION ? 'bg-white text-purple-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              disabled={isRequestRunning}
+              title={isRequestRunning ? '生成・編集が終わるまで切り替えできません' : undefined}
+              className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed ${state.mode === AppMode.PRESENTATION ? 'bg-white text-purple-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
             >
               <PresentationChartLineIcon className="w-4 h-4" />
               プレゼン資料を作る
@@ -520,13 +1159,133 @@ const App: React.FC = () => {
           </div>
 
           <div className="flex gap-6 text-sm font-medium text-gray-500">
-             <div className="flex items-center gap-2">
-                <span className="text-gray-400">履歴</span>
-             </div>
+             <button
+                onClick={() => setShowPromptEditor(true)}
+                className="flex items-center gap-1 hover:text-purple-600"
+             >
+                <AdjustmentsHorizontalIcon className="w-4 h-4" />
+                プロンプト設定
+                {Object.keys(state.promptOverrides).length > 0 && (
+                   <span className="bg-purple-100 text-purple-700 text-xs px-1.5 rounded-full">{Object.keys(state.promptOverrides).length}</span>
+                )}
+             </button>
+             <button
+                onClick={() => setShowBrandKitEditor(true)}
+                className="flex items-center gap-1 hover:text-purple-600"
+             >
+                <SwatchIcon className="w-4 h-4" />
+                ブランドキット
+                {activeBrandKit && (
+                   <span className="bg-purple-100 text-purple-700 text-xs px-1.5 rounded-full">{activeBrandKit.name}</span>
+                )}
+             </button>
+             <button
+                onClick={() => setShowOverlayEditor(true)}
+                className="flex items-center gap-1 hover:text-purple-600"
+             >
+                <TagIcon className="w-4 h-4" />
+                ロゴ・フッター
+                {hasEnabledOverlay(state.overlay, overlayLogo) && (
+                   <span className="bg-purple-100 text-purple-700 text-xs px-1.5 rounded-full">ON</span>
+                )}
+             </button>
+             <button
+                onClick={handleShowProjectLibrary}
+                disabled={isRequestRunning}
+                title={isRequestRunning ? '生成・編集が終わるまで開けません' : undefined}
+                className="flex items-center gap-1 hover:text-purple-600 disabled:opacity-50 disabled:cursor-not-allowed"
+             >
+                <FolderOpenIcon className="w-4 h-4" />
+                プロジェクト
+                {projectSaveStatus === 'saving' && <span className="text-xs text-gray-400">保存中...</span>}
+                {projectSaveStatus === 'saved' && <span className="text-xs text-gray-400">保存済み</span>}
+                {projectSaveStatus === 'error' && <span className="text-xs text-red-500">保存できませんでした</span>}
+             </button>
           </div>
         </div>
       </header>
 
+      {showPromptEditor && (
+        <PromptTemplateEditor
+          overrides={state.promptOverrides}
+          onChange={(promptOverrides) => setState(prev => ({ ...prev, promptOverrides }))}
+          onClose={() => setShowPromptEditor(false)}
+        />
+      )}
+
+      {showBrandKitEditor && (
+        <BrandKitEditor
+          kits={brandKits}
+          initialKitId={state.brandKitId}
+          onChange={handleBrandKitsChange}
+          onClose={() => setShowBrandKitEditor(false)}
+        />
+      )}
+
+      {showOverlayEditor && (
+        <SlideOverlayEditor
+          settings={state.overlay}
+          brandLogo={activeBrandKit?.logo ?? null}
+          previewImage={overlayPreviewImage}
+          previewPageNumber={overlayPreviewImage ? getOverlayPageNumber(overlayPreviewImage) : undefined}
+          onChange={(overlay) => setState(prev => ({ ...prev, overlay }))}
+          onClose={() => setShowOverlayEditor(false)}
+        />
+      )}
+
+      {textLayerImage?.textLayer && (
+        <TextLayerEditor
+          layer={textLayerImage.textLayer}
+          renderPreview={(layer) => renderSlide({ ...textLayerImage, textLayer: layer })}
+          onSave={handleSaveTextLayer}
+          onClose={() => setTextLayerImageId(null)}
+        />
+      )}
+
+      {historyImage && (
+        <VersionHistoryDialog
+          current={historyImage}
+          versions={state.imageVersions}
+          title={state.presentationOutline.find(page => page.id === historyImage.pageId)?.title || (historyImage.animationStep ? `ステップ ${historyImage.animationStep}` : '画像')}
+          renderImage={renderSlide}
+          onRevert={handleRevertVersion}
+          onClose={() => setHistoryImageId(null)}
+        />
+      )}
+
+      {showProjectLibrary && (
+        <ProjectLibraryDialog
+          currentProjectId={projectId}
+          onOpen={handleOpenProject}
+          onNew={async () => {
+            await switchMode(state.mode);
+            setShowProjectLibrary(false);
+          }}
+          onDeleted={handleProjectDeleted}
+          onClose={() => setShowProjectLibrary(false)}
+        />
+      )}
+
+      {showBatchEdit && (
+        <BatchEditDialog
+          slides={deckSlides.flatMap(({ page, image }, idx) => image ? [{ id: page.id, image, title: page.title || `Page ${idx + 1}` }] : [])}
+          items={batchEditItems}
+          renderImage={renderSlide}
+          onRun={handleRunBatchEdit}
+          onAccept={handleAcceptBatchEdits}
+          onDiscard={handleDiscardBatchEdits}
+          onClose={() => setShowBatchEdit(false)}
+        />
+      )}
+
+      {csvImportFile && (
+        <CsvImportDialog
+          file={csvImportFile}
+          onImport={handleCsvImport}
+          onClose={() => setCsvImportFile(null)}
+        />
+      )}
+
       <main className="flex-grow max-w-7xl mx-auto w-full px-4 sm:px-6 lg:px-8 py-8">
 
         {/* ==================== SINGLE MODE ==================== */}
@@ -560,6 +1319,31 @@ const App: React.FC = () => {
                            複数スライド版 (アニメーション用)
                         </span>
                      </label>
+                     {state.isAnimationMode && (
+                        <label className="flex items-center gap-2 cursor-pointer" title="各ステップを前のステップの画像から生成し、レイアウトを揃えます（順番に生成するため時間がかかります）">
+                           <input
+                              type="checkbox"
+                              checked={state.isSequentialAnimation}
+                              onChange={(e) => setState(prev => ({...prev, isSequentialAnimation: e.target.checked}))}
+                              className="w-4 h-4 text-purple-600 rounded border-gray-300 focus:ring-purple-500"
+                           />
+                           <span className="text-sm text-gray-600">前のステップから順に生成</span>
+                        </label>
+                     )}
+                     <div className="ml-auto flex items-center gap-2">
+                        <span className="text-sm font-medium text-gray-700">出力言語</span>
+                        <div className="flex rounded-lg border border-gray-200 overflow-hidden">
+                           {LANGUAGE_OPTIONS.map(option => (
+                              <button
+                                 key={option.value}
+                                 onClick={() => setState(prev => ({ ...prev, language: option.value }))}
+                                 className={`px-3 py-1.5 text-sm font-medium ${state.language === option.value ? 'bg-purple-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                              >
+                                 {option.label}
+                              </button>
+                           ))}
+                        </div>
+                     </div>
                   </div>
                 </div>
 
@@ -600,6 +1384,13 @@ const App: React.FC = () => {
                          value={state.stylePreferences}
                          onChange={(e) => setState(prev => ({...prev, stylePreferences: e.target.value}))}
                       />
+                      <label className="block text-sm font-medium text-gray-700 mt-4 mb-2">ブランドキット</label>
+                      <BrandKitSelector
+                         kits={brandKits}
+                         selectedId={state.brandKitId}
+                         onSelect={handleSelectBrandKit}
+                         onManage={() => setShowBrandKitEditor(true)}
+                      />
                    </div>
 
                    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
@@ -646,6 +1437,39 @@ const App: React.FC = () => {
                    </div>
                 </div>
 
+                <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 grid grid-cols-1 md:grid-cols-2 gap-6">
+                   <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">アスペクト比</label>
+                      <div className="grid grid-cols-3 gap-2">
+                         {ASPECT_OPTIONS.map(option => (
+                            <button
+                               key={option.value}
+                               onClick={() => setState(prev => ({ ...prev, aspectRatio: option.value }))}
+                               className={`p-3 rounded-lg border-2 text-left transition-all ${state.aspectRatio === option.value ? 'border-purple-600 bg-purple-50' : 'border-gray-200 bg-white hover:border-purple-300'}`}
+                            >
+                               <div className="font-semibold text-sm text-gray-900">{option.label}</div>
+                               <div className="text-xs text-gray-500">{option.hint}</div>
+                            </button>
+                         ))}
+                      </div>
+                   </div>
+                   <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">解像度</label>
+                      <div className="grid grid-cols-3 gap-2">
+                         {SIZE_OPTIONS.map(option => (
+                            <button
+                               key={option.value}
+                               onClick={() => setState(prev => ({ ...prev, imageSize: option.value }))}
+                               className={`p-3 rounded-lg border-2 text-left transition-all ${state.imageSize === option.value ? 'border-purple-600 bg-purple-50' : 'border-gray-200 bg-white hover:border-purple-300'}`}
+                            >
+                               <div className="font-semibold text-sm text-gray-900">{option.label}</div>
+                               <div className="text-xs text-gray-500">{option.hint}</div>
+                            </button>
+                         ))}
+                      </div>
+                   </div>
+                </div>
+
                 <div className="flex items-center justify-between bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
                   <div className="flex items-center gap-4">
                      <span className="text-sm font-medium text-gray-700">生成する画像の数</span>
@@ -694,9 +1518,50 @@ const App: React.FC = () => {
                           <span className="bg-purple-100 text-purple-700 px-3 py-1 rounded-full text-sm font-bold">1</span>
                           <h2 className="text-xl font-bold text-gray-900">生成された画像</h2>
                        </div>
-                       <button onClick={() => goToStep(1)} className="text-sm text-gray-500 hover:text-purple-600">最初からやり直す</button>
+                       <div className="flex items-center gap-4">
+                          <PdfExportControls
+                             slidesPerPage={pdfSlidesPerPage}
+                             onSlidesPerPageChange={setPdfSlidesPerPage}
+                             onExport={handleExportVariationsPdf}
+                             isExporting={isExportingPdf}
+                             disabled={state.generatedImages.length === 0}
+                             label={pdfSelectedIds.length > 0 ? `PDF (${pdfSelectedIds.length}案)` : 'PDF (全案)'}
+                          />
+                          <button onClick={() => goToStep(1)} className="text-sm text-gray-500 hover:text-purple-600">最初からやり直す</button>
+                       </div>
                     </div>
 
+                    {chainProgress && (
+                       <div className="p-3 rounded-lg text-sm bg-purple-50 text-purple-700 flex items-center gap-2">
+                          <ArrowPathIcon className="w-4 h-4 animate-spin" />
+                          ステップ {chainProgress.step} / {chainProgress.total} を前のステップから生成中...
+                       </div>
+                    )}
+                    {variationFailures.length > 0 && (
+                       <div className="p-3 rounded-lg text-sm bg-amber-50 text-amber-800 border border-amber-100">
+                          <div className="font-bold mb-1">{variationFailures.length}{state.isAnimationMode ? 'ステップ' : '案'}の生成に失敗しました（再試行後）</div>
+                          <ul className="space-y-1 text-xs">
+                             {variationFailures.map(failure => (
+                                <li key={failure.index}>
+                                   {state.isAnimationMode ? `ステップ ${failure.index}` : `案 ${failure.index}`}: {failure.error}
+                                </li>
+                             ))}
+                          </ul>
+                       </div>
+                    )}
+                    {chainFailedStep !== null && !chainProgress && (
+                       <div className="p-3 rounded-lg text-sm bg-amber-50 text-amber-800 border border-amber-100 flex items-center justify-between">
+                          <span>ステップ{chainFailedStep}の生成に失敗したため、以降のステップは生成されていません。</span>
+                          <button
+                             onClick={() => handleRestartChain(chainFailedStep)}
+                             disabled={state.isGenerating}
+                             className="bg-amber-600 hover:bg-amber-700 text-white px-3 py-1.5 rounded-lg text-xs font-semibold disabled:opacity-50"
+                          >
+                             ステップ{chainFailedStep}から再開
+                          </button>
+                       </div>
+                    )}
+
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
                        {state.generatedImages.map((img) => (
                           <div
@@ -707,16 +1572,45 @@ const App: React.FC = () => {
                              }}
                              className={`group bg-white rounded-xl shadow-sm overflow-hidden cursor-pointer border-2 transition-all ${state.selectedImageId === img.id ? 'border-purple-600 ring-2 ring-purple-100' : 'border-transparent hover:border-purple-200'}`}
                           >
-                             <div className="aspect-video relative">
-                                <img src={img.url} alt="Generated Infographic" className="w-full h-full object-cover" />
+                             <div className={`${ASPECT_CLASS[state.aspectRatio]} relative`}>
+                                <img src={displayUrl(img)} alt="Generated Infographic" className="w-full h-full object-cover" />
+                                <label
+                                   onClick={(e) => e.stopPropagation()}
+                                   className="absolute top-2 left-2 bg-white/90 rounded-md px-2 py-1 text-xs text-gray-700 flex items-center gap-1 shadow-sm cursor-pointer"
+                                   title="PDFに含める"
+                                >
+                                   <input
+                                      type="checkbox"
+                                      checked={pdfSelectedIds.includes(img.id)}
+                                      onChange={() => togglePdfSelection(img.id)}
+                                      className="rounded text-purple-600 focus:ring-purple-500"
+                                   />
+                                   PDF
+                                </label>
                                 {state.selectedImageId === img.id && (
                                    <div className="absolute top-2 right-2 bg-purple-600 text-white p-1 rounded-full shadow-lg">
                                       <CheckCircleIcon className="w-5 h-5" />
                                    </div>
                                 )}
                              </div>
-                             <div className="p-3">
+                             <div className="p-3 flex items-center justify-between gap-2">
                                 <div className="text-xs text-purple-600 font-mono">Est: $0.2593</div>
+                                {img.animationStep !== undefined && (
+                                   <div className="flex items-center gap-2">
+                                      <span className="text-xs font-bold text-gray-600">Step {img.animationStep}</span>
+                                      <button
+                                         onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleRestartChain(img.animationStep as number);
+                                         }}
+                                         disabled={state.isGenerating}
+                                         className="text-xs text-purple-600 hover:text-purple-800 flex items-center gap-1 disabled:opacity-40"
+                                         title="このステップ以降を、前のステップの画像から順に再生成します"
+                                      >
+                                         <ArrowPathIcon className="w-3.5 h-3.5" /> ここから再生成
+                                      </button>
+                                   </div>
+                                )}
                              </div>
                           </div>
                        ))}
@@ -731,21 +1625,30 @@ const App: React.FC = () => {
                              <span className="bg-purple-100 text-purple-700 px-3 py-1 rounded-full text-sm font-bold">2</span>
                              <h2 className="text-xl font-bold text-gray-900">ブラッシュアップ (編集) & PPT作成</h2>
                           </div>
-                          <button
-                            onClick={handleSaveToDrive}
-                            disabled={isSavingToDrive}
-                            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-bold flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
-                          >
-                            {isSavingToDrive ? (
-                              <>
-                                <ArrowPathIcon className="w-5 h-5 animate-spin" /> 保存中...
-                              </>
-                            ) : (
-                              <>
-                                <ArrowDownTrayIcon className="w-5 h-5" /> Googleドライブに保存
-                              </>
-                            )}
-                          </button>
+                          <div className="flex items-center gap-2">
+                             <button
+                               onClick={handleDownloadZip}
+                               disabled={exportImages.length === 0}
+                               className="bg-gray-700 hover:bg-gray-800 text-white px-4 py-2 rounded-lg font-bold flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                             >
+                                <ArchiveBoxArrowDownIcon className="w-5 h-5" /> ZIPで一括ダウンロード
+                             </button>
+                             <button
+                               onClick={handleSaveToDrive}
+                               disabled={isSavingToDrive}
+                               className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-bold flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                             >
+                               {isSavingToDrive ? (
+                                 <>
+                                   <ArrowPathIcon className="w-5 h-5 animate-spin" /> 保存中...
+                                 </>
+                               ) : (
+                                 <>
+                                   <ArrowDownTrayIcon className="w-5 h-5" /> Googleドライブに保存
+                                 </>
+                               )}
+                             </button>
+                          </div>
                        </div>
                        {driveSaveStatus && (
                          <div className={`mb-4 p-3 rounded-lg text-sm ${driveSaveStatus.includes('✅') ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
@@ -756,7 +1659,12 @@ const App: React.FC = () => {
                        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                           <div className="lg:col-span-2">
                              <div className="bg-white p-2 rounded-2xl shadow-lg border border-gray-100 relative group">
-                                <img src={selectedImage.url} className="w-full rounded-xl" />
+                                <div className="relative">
+                                   <img src={displayUrl(selectedImage)} className="w-full rounded-xl" />
+                                   {isMasking && (
+                                      <MaskEditor key={selectedImage.id} imageUrl={selectedImage.url} onChange={setEditMask} />
+                                   )}
+                                </div>
                                 {isEditing && (
                                    <div className="absolute inset-0 bg-white/80 backdrop-blur-sm flex items-center justify-center rounded-xl z-10">
                                       <div className="flex items-center gap-2 text-purple-600 font-semibold">
@@ -765,8 +1673,8 @@ const App: React.FC = () => {
                                       </div>
                                    </div>
                                 )}
-                                <div className="absolute bottom-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                                   <a href={selectedImage.url} download="slide.png" className="bg-white/90 hover:bg-white text-gray-800 px-3 py-2 rounded-lg text-sm font-medium shadow-sm flex items-center gap-2">
+                                <div className={`absolute bottom-4 right-4 flex gap-2 opacity-0 transition-opacity ${isMasking ? 'hidden' : 'group-hover:opacity-100'}`}>
+                                   <a href={displayUrl(selectedImage)} download="slide.png" className="bg-white/90 hover:bg-white text-gray-800 px-3 py-2 rounded-lg text-sm font-medium shadow-sm flex items-center gap-2">
                                       <ArrowDownTrayIcon className="w-4 h-4" /> 画像DL
                                    </a>
                                    <button className="bg-orange-500 hover:bg-orange-600 text-white px-3 py-2 rounded-lg text-sm font-medium shadow-sm flex items-center gap-2">
@@ -782,6 +1690,13 @@ const App: React.FC = () => {
                           </div>
 
                           <div className="space-y-6">
+                             {state.isAnimationMode && animationSteps.length > 0 && (
+                                <AnimationExportPanel
+                                   steps={animationSteps.map(step => ({ ...step, url: displayUrl(step) }))}
+                                   fileBaseName={`${toSafeFileName(getExportTitle('アニメーション'))}_アニメーション`}
+                                   onUploadToDrive={handleUploadFileToDrive}
+                                />
+                             )}
                              <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
                                 <label className="block text-sm font-bold text-gray-700 mb-2">修正指示を入力</label>
                                 <p className="text-xs text-gray-400 mb-3">「背景の人物を消して」「色をもっと明るく」「レトロなフィルターを追加」など</p>
@@ -791,7 +1706,28 @@ const App: React.FC = () => {
                                    value={editInstruction}
                                    onChange={(e) => setEditInstruction(e.target.value)}
                                 />
-                                <div className="mt-3 flex justify-end">
+                                <label className="mt-3 flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                                   <input
+                                      type="checkbox"
+                                      checked={isMasking}
+                                      onChange={(e) => {
+                                         setIsMasking(e.target.checked);
+                                         setEditMask(null);
+                                      }}
+                                      className="w-4 h-4 text-purple-600 rounded border-gray-300 focus:ring-purple-500"
+                                   />
+                                   範囲を指定して編集
+                                </label>
+                                {isMasking && (
+                                   <p className="text-xs text-gray-400 mt-1">画像上をブラシか矩形で塗ると、その範囲だけが修正されます。</p>
+                                )}
+                                <div className="mt-3 flex items-center justify-between">
+                                   <button
+                                      onClick={() => setHistoryImageId(selectedImage.id)}
+                                      className="text-sm text-gray-500 hover:text-purple-600 flex items-center gap-1"
+                                   >
+                                      <ClockIcon className="w-4 h-4" /> 編集履歴 ({getVersionCount(selectedImage)})
+                                   </button>
                                    <button
                                       onClick={handleEditImage}
                                       disabled={!editInstruction || isEditing}
@@ -853,11 +1789,26 @@ const App: React.FC = () => {
                            <button
                               onClick={() => csvInputRef.current?.click()}
                               className="text-xs bg-gray-100 hover:bg-gray-200 text-gray-600 px-3 py-1.5 rounded-lg flex items-center gap-1 transition-colors"
-                              title="CSVファイルから構成を読み込む (スライド番号,タイトル,本文)"
+                              title="CSVファイルから構成を読み込む (列の割り当てはプレビューで指定できます)"
                            >
                               <TableCellsIcon className="w-4 h-4" />
                               CSVで構成を読み込む
                            </button>
+                           <input
+                              type="file"
+                              ref={markdownInputRef}
+                              accept=".md,.markdown,.txt,.json"
+                              className="hidden"
+                              onChange={handleMarkdownUpload}
+                           />
+                           <button
+                              onClick={() => markdownInputRef.current?.click()}
+                              className="text-xs bg-gray-100 hover:bg-gray-200 text-gray-600 px-3 py-1.5 rounded-lg flex items-center gap-1 transition-colors"
+                              title="Markdown / テキスト / JSONファイルから構成を読み込む (# 見出しごとに1ページ)"
+                           >
+                              <DocumentTextIcon className="w-4 h-4" />
+                              Markdownで構成を読み込む
+                           </button>
                         </div>
                       </div>
 
@@ -871,6 +1822,15 @@ const App: React.FC = () => {
                                value={state.imageCount}
                                onChange={(e) => setState(prev => ({...prev, imageCount: parseInt(e.target.value) || 4}))}
                             />
+                            <label className="block text-sm font-medium text-gray-700 mt-4 mb-2">発表時間（分）</label>
+                            <input
+                               type="number"
+                               min="1" max="120"
+                               className="w-full p-3 border border-gray-300 rounded-lg"
+                               value={state.talkDurationMinutes}
+                               onChange={(e) => setState(prev => ({...prev, talkDurationMinutes: parseInt(e.target.value) || 10}))}
+                            />
+                            <p className="text-xs text-gray-400 mt-1">スピーカーノートの分量の目安になります</p>
                          </div>
                          <div>
                             <label className="block text-sm font-medium text-gray-700 mb-3">デザインの複雑さ</label>
@@ -913,6 +1873,13 @@ const App: React.FC = () => {
                               value={state.stylePreferences}
                               onChange={(e) => setState(prev => ({...prev, stylePreferences: e.target.value}))}
                            />
+                           <label className="block text-sm font-medium text-gray-700 mt-4 mb-2">ブランドキット</label>
+                           <BrandKitSelector
+                              kits={brandKits}
+                              selectedId={state.brandKitId}
+                              onSelect={handleSelectBrandKit}
+                              onManage={() => setShowBrandKitEditor(true)}
+                           />
                         </div>
                         <div>
                            <label className="block text-sm font-medium text-gray-700 mb-2">参考画像 (任意・複数可)</label>
@@ -941,6 +1908,65 @@ const App: React.FC = () => {
                         </div>
                       </div>
 
+                      <div>
+                         <label className="block text-sm font-medium text-gray-700 mb-2">出力言語</label>
+                         <div className="inline-flex rounded-lg border border-gray-200 overflow-hidden">
+                            {LANGUAGE_OPTIONS.map(option => (
+                               <button
+                                  key={option.value}
+                                  onClick={() => setState(prev => ({ ...prev, language: option.value }))}
+                                  className={`px-4 py-2 text-sm font-medium ${state.language === option.value ? 'bg-purple-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                               >
+                                  {option.label}
+                               </button>
+                            ))}
+                         </div>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-6">
+                        <div>
+                           <label className="block text-sm font-medium text-gray-700 mb-2">アスペクト比</label>
+                           <div className="grid grid-cols-3 gap-2">
+                              {ASPECT_OPTIONS.map(option => (
+                                 <button
+                                    key={option.value}
+                                    onClick={() => setState(prev => ({ ...prev, aspectRatio: option.value }))}
+                                    className={`p-3 rounded-lg border-2 text-left transition-all ${state.aspectRatio === option.value ? 'border-purple-600 bg-purple-50' : 'border-gray-200 bg-white hover:border-purple-300'}`}
+                                 >
+                                    <div className="font-semibold text-sm text-gray-900">{option.label}</div>
+                                    <div className="text-xs text-gray-500">{option.hint}</div>
+                                 </button>
+                              ))}
+                           </div>
+                        </div>
+                        <div>
+                           <label className="block text-sm font-medium text-gray-700 mb-2">解像度</label>
+                           <div className="grid grid-cols-3 gap-2">
+                              {SIZE_OPTIONS.map(option => (
+                                 <button
+                                    key={option.value}
+                                    onClick={() => setState(prev => ({ ...prev, imageSize: option.value }))}
+                                    className={`p-3 rounded-lg border-2 text-left transition-all ${state.imageSize === option.value ? 'border-purple-600 bg-purple-50' : 'border-gray-200 bg-white hover:border-purple-300'}`}
+                                 >
+                                    <div className="font-semibold text-sm text-gray-900">{option.label}</div>
+                                    <div className="text-xs text-gray-500">{option.hint}</div>
+                                 </button>
+                              ))}
+                           </div>
+                        </div>
+                      </div>
+
+                      {outlineError && (
+                        <div className="p-4 rounded-lg text-sm bg-red-50 text-red-700 border border-red-100">
+                          <div className="font-bold">{outlineError.message}</div>
+                          {outlineError.issues.length > 0 && (
+                            <ul className="mt-2 space-y-1 text-xs list-disc list-inside">
+                              {outlineError.issues.map((issue, idx) => <li key={idx}>{issue}</li>)}
+                            </ul>
+                          )}
+                        </div>
+                      )}
+
                       <button
                         onClick={handleGenerateOutline}
                         disabled={!state.prompt || state.isGenerating}
@@ -963,8 +1989,31 @@ const App: React.FC = () => {
                    <div className="space-y-6">
                       <div className="flex items-center justify-between">
                          <h3 className="text-lg font-bold text-gray-900">ページ構成を確認・編集</h3>
-                         <button onClick={() => goToStep(1)} className="text-sm text-gray-500 hover:text-purple-600 underline">最初からやり直す</button>
+                         <div className="flex items-center gap-3">
+                            <div className="flex items-center gap-1 text-xs text-gray-500">
+                               <ArrowDownTrayIcon className="w-4 h-4" /> 書き出し:
+                               {(Object.keys(OUTLINE_EXPORT_FORMATS) as OutlineExportFormat[]).map(format => (
+                                  <button
+                                     key={format}
+                                     onClick={() => handleExportOutline(format)}
+                                     disabled={state.presentationOutline.length === 0}
+                                     className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 text-gray-700 disabled:opacity-40"
+                                  >
+                                     {OUTLINE_EXPORT_FORMATS[format].label}
+                                  </button>
+                               ))}
+                            </div>
+                            <button onClick={() => goToStep(1)} className="text-sm text-gray-500 hover:text-purple-600 underline">最初からやり直す</button>
+                         </div>
                       </div>
+                      {outlineWarnings.length > 0 && (
+                        <details className="p-3 rounded-lg text-sm bg-amber-50 text-amber-800 border border-amber-100">
+                          <summary className="cursor-pointer font-medium">構成案を自動補正しました（{outlineWarnings.length}件）</summary>
+                          <ul className="mt-2 space-y-1 text-xs list-disc list-inside">
+                            {outlineWarnings.map((warning, idx) => <li key={idx}>{warning}</li>)}
+                          </ul>
+                        </details>
+                      )}
                       <p className="text-sm text-gray-600">各ページの構成を確認・編集できます。視覚表現・強調ポイント・温度感を調整することで、より効果的なスライドを生成できます。</p>
 
                       {/* 複雑さ選択 */}
@@ -1000,9 +2049,46 @@ const App: React.FC = () => {
 
                       <div className="space-y-4">
                          {state.presentationOutline.map((page, idx) => (
-                            <div key={idx} className="bg-gray-50 p-4 rounded-xl border border-gray-200">
+                            <div
+                               key={page.id}
+                               onDragOver={(e) => { if (dragPageIndex !== null) e.preventDefault(); }}
+                               onDrop={() => handlePageDrop(idx)}
+                               className={`bg-gray-50 p-4 rounded-xl border transition-all ${dragPageIndex === idx ? 'opacity-50 border-purple-400' : 'border-gray-200'}`}
+                            >
                                <div className="flex items-center gap-2 mb-2">
+                                  <span
+                                     draggable
+                                     onDragStart={() => setDragPageIndex(idx)}
+                                     onDragEnd={() => setDragPageIndex(null)}
+                                     className="cursor-grab text-gray-400 hover:text-gray-600"
+                                     title="ドラッグして並べ替え"
+                                  >
+                                     <Bars3Icon className="w-4 h-4" />
+                                  </span>
                                   <span className="bg-purple-200 text-purple-800 text-xs font-bold px-2 py-1 rounded">ページ {page.pageNumber}</span>
+                                  <div className="ml-auto flex items-center gap-1">
+                                     <button
+                                        onClick={() => setPageRewrite({ pageId: page.id, instruction: '', isLoading: false, proposal: null, error: null })}
+                                        className="p-1.5 rounded text-gray-400 hover:text-purple-600 hover:bg-white flex items-center gap-1 text-xs"
+                                        title="AIで書き直す"
+                                     >
+                                        <SparklesIcon className="w-4 h-4" /> AIで書き直す
+                                     </button>
+                                     <button onClick={() => handleInsertPage(idx + 1)} className="p-1.5 rounded text-gray-400 hover:text-purple-600 hover:bg-white" title="この後にページを追加">
+                                        <PlusIcon className="w-4 h-4" />
+                                     </button>
+                                     <button onClick={() => handleDuplicatePage(idx)} className="p-1.5 rounded text-gray-400 hover:text-purple-600 hover:bg-white" title="複製">
+                                        <DocumentDuplicateIcon className="w-4 h-4" />
+                                     </button>
+                                     <button
+                                        onClick={() => handleDeletePage(idx)}
+                                        disabled={state.presentationOutline.length <= 1}
+                                        className="p-1.5 rounded text-gray-400 hover:text-red-600 hover:bg-white disabled:opacity-30"
+                                        title="削除"
+                                     >
+                                        <TrashIcon className="w-4 h-4" />
+                                     </button>
+                                  </div>
                                </div>
                                <div className="space-y-3">
                                   <div>
@@ -1036,9 +2122,102 @@ const App: React.FC = () => {
                                         <input type="text" className="w-full p-2 border border-gray-300 rounded bg-white text-xs" value={page.mood} onChange={(e) => handleOutlineChange(idx, 'mood', e.target.value)} />
                                      </div>
                                   </div>
+                                  <div>
+                                     <label className="text-xs font-semibold text-gray-500 flex items-center gap-1">🎤 スピーカーノート</label>
+                                     <textarea
+                                       className="w-full p-2 border border-gray-300 rounded bg-white text-xs h-20 resize-y"
+                                       placeholder="このページで話す内容..."
+                                       value={page.speakerNotes}
+                                       onChange={(e) => handleOutlineChange(idx, 'speakerNotes', e.target.value)}
+                                     />
+                                  </div>
                                </div>
+
+                               {pageRewrite?.pageId === page.id && (
+                                  <div className="mt-3 p-3 bg-white rounded-lg border border-purple-200 space-y-3">
+                                     <div className="flex gap-2">
+                                        <input
+                                           type="text"
+                                           className="flex-1 p-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-purple-500 outline-none"
+                                           placeholder="例: もっとデータに基づいた内容にして"
+                                           value={pageRewrite.instruction}
+                                           onChange={(e) => setPageRewrite({ ...pageRewrite, instruction: e.target.value })}
+                                           onKeyDown={(e) => { if (e.key === 'Enter' && !e.nativeEvent.isComposing) handleRewritePage(); }}
+                                        />
+                                        <button
+                                           onClick={handleRewritePage}
+                                           disabled={!pageRewrite.instruction || pageRewrite.isLoading}
+                                           className="bg-purple-600 hover:bg-purple-700 text-white px-3 py-2 rounded text-sm font-medium flex items-center gap-1 disabled:bg-gray-300"
+                                        >
+                                           {pageRewrite.isLoading ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : <SparklesIcon className="w-4 h-4" />}
+                                           提案を作成
+                                        </button>
+                                        <button onClick={() => setPageRewrite(null)} className="text-sm text-gray-500 hover:text-gray-800 px-2">閉じる</button>
+                                     </div>
+                                     {pageRewrite.error && <p className="text-xs text-red-600">{pageRewrite.error}</p>}
+                                     {pageRewrite.proposal && (
+                                        <div className="space-y-2">
+                                           <div className="text-xs font-bold text-gray-700">AIの提案（変更箇所）</div>
+                                           {REWRITABLE_PAGE_FIELDS
+                                              .filter(({ key }) => pageRewrite.proposal![key] !== page[key])
+                                              .map(({ key, label }) => (
+                                                 <div key={key} className="grid grid-cols-2 gap-2 text-xs">
+                                                    <div className="p-2 rounded bg-red-50 text-red-900 whitespace-pre-wrap">
+                                                       <div className="font-semibold text-red-500 mb-1">{label}（現在）</div>
+                                                       {String(page[key]) || '—'}
+                                                    </div>
+                                                    <div className="p-2 rounded bg-green-50 text-green-900 whitespace-pre-wrap">
+                                                       <div className="font-semibold text-green-600 mb-1">{label}（提案）</div>
+                                                       {String(pageRewrite.proposal![key]) || '—'}
+                                                    </div>
+                                                 </div>
+                                              ))}
+                                           <div className="flex justify-end gap-2">
+                                              <button onClick={() => setPageRewrite({ ...pageRewrite, proposal: null })} className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-1.5 rounded text-xs font-medium">
+                                                 破棄
+                                              </button>
+                                              <button onClick={handleAcceptRewrite} className="bg-green-600 hover:bg-green-700 text-white px-3 py-1.5 rounded text-xs font-medium">
+                                                 採用する
+                                              </button>
+                                           </div>
+                                        </div>
+                                     )}
+                                  </div>
+                               )}
                             </div>
                          ))}
+                         <button
+                            onClick={() => handleInsertPage(state.presentationOutline.length)}
+                            className="w-full py-3 border-2 border-dashed border-gray-300 rounded-xl text-sm text-gray-500 hover:border-purple-300 hover:text-purple-600 flex items-center justify-center gap-1"
+                         >
+                            <PlusIcon className="w-4 h-4" /> ページを追加
+                         </button>
+                      </div>
+
+                      <div className="bg-white p-4 rounded-xl border border-gray-200 flex flex-wrap items-center gap-3">
+                         <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                               type="checkbox"
+                               checked={state.textLayerLayout !== null}
+                               onChange={(e) => setState(prev => ({ ...prev, textLayerLayout: e.target.checked ? 'left' : null }))}
+                               className="w-4 h-4 text-purple-600 rounded border-gray-300 focus:ring-purple-500"
+                            />
+                            <span className="text-sm font-medium text-gray-700">文字をアプリで描画する (テキストレイヤー)</span>
+                         </label>
+                         {state.textLayerLayout && (
+                            <select
+                               value={state.textLayerLayout}
+                               onChange={(e) => setState(prev => ({ ...prev, textLayerLayout: e.target.value as TextLayerLayout }))}
+                               className="p-2 border border-gray-300 rounded-lg text-sm"
+                            >
+                               {(Object.keys(TEXT_LAYER_LAYOUTS) as TextLayerLayout[]).map(key => (
+                                  <option key={key} value={key}>{TEXT_LAYER_LAYOUTS[key].label}</option>
+                               ))}
+                            </select>
+                         )}
+                         <span className="w-full text-xs text-gray-400">
+                            画像には文字を描かせず、タイトルと本文を正確な文字でスライドに重ねます。生成後も文字を編集できます。
+                         </span>
                       </div>
 
                       <button
@@ -1049,6 +2228,7 @@ const App: React.FC = () => {
                          {state.isGenerating ? (
                             <>
                                <ArrowPathIcon className="w-5 h-5 animate-spin" /> プレゼンテーション生成中...
+                               {deckProgress && ` (${deckProgress.completed}/${deckProgress.total})`}
                             </>
                          ) : (
                             <>
@@ -1070,6 +2250,21 @@ const App: React.FC = () => {
                             >
                                <ChevronLeftIcon className="w-4 h-4" /> 構成に戻る
                             </button>
+                            <button
+                              onClick={() => setShowBatchEdit(true)}
+                              disabled={!deckSlides.some(({ image }) => image)}
+                              className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg font-bold flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                               {batchEditItems.some(item => item.status === 'pending') ? (
+                                 <>
+                                   <ArrowPathIcon className="w-5 h-5 animate-spin" /> 一括編集中 ({batchEditItems.filter(item => item.status !== 'pending').length}/{batchEditItems.length})
+                                 </>
+                               ) : (
+                                 <>
+                                   <BoltIcon className="w-5 h-5" /> 一括編集
+                                 </>
+                               )}
+                            </button>
                             <button
                               onClick={handleSaveToDrive}
                               disabled={isSavingToDrive}
@@ -1085,10 +2280,28 @@ const App: React.FC = () => {
                                  </>
                                )}
                             </button>
-                            <button className="bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg font-bold flex items-center gap-2">
+                            <button
+                              onClick={handleDownloadPptx}
+                              disabled={!deckSlides.some(({ image }) => image)}
+                              className="bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg font-bold flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
                                <PresentationChartLineIcon className="w-5 h-5" /> PPTダウンロード
                             </button>
-                            <button onClick={() => switchMode(AppMode.PRESENTATION)} className="text-gray-500 hover:text-gray-900 px-4 py-2 text-sm">新しく作成</button>
+                            <button
+                              onClick={handleDownloadZip}
+                              disabled={exportImages.length === 0}
+                              className="bg-gray-700 hover:bg-gray-800 text-white px-4 py-2 rounded-lg font-bold flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                               <ArchiveBoxArrowDownIcon className="w-5 h-5" /> ZIPで一括ダウンロード
+                            </button>
+                            <PdfExportControls
+                              slidesPerPage={pdfSlidesPerPage}
+                              onSlidesPerPageChange={setPdfSlidesPerPage}
+                              onExport={handleExportDeckPdf}
+                              isExporting={isExportingPdf}
+                              disabled={!deckSlides.some(({ image }) => image)}
+                            />
+                            <button onClick={() => switchMode(AppMode.PRESENTATION)} disabled={isRequestRunning} className="text-gray-500 hover:text-gray-900 px-4 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed">新しく作成</button>
                          </div>
                       </div>
                       {driveSaveStatus && (
@@ -1096,22 +2309,130 @@ const App: React.FC = () => {
                           {driveSaveStatus}
                         </div>
                       )}
+                      {deckFailures.length > 0 && (
+                        <div className="p-3 rounded-lg text-sm bg-amber-50 text-amber-800 border border-amber-100">
+                          <div className="font-bold mb-1">{deckFailures.length}ページの生成に失敗しました（再試行後）</div>
+                          <ul className="space-y-1 text-xs">
+                            {deckFailures.map(failure => (
+                              <li key={failure.pageNumber}>
+                                ページ {failure.pageNumber}「{failure.title}」: {failure.error}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
 
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                         {state.generatedImages.map((img, idx) => {
-                           const pageInfo = state.presentationOutline[idx];
+                         {deckSlides.map(({ page, image }, idx) => {
+                           const isRegenerating = regeneratingPageIds.includes(page.id);
+                           const draft = pageDraft?.id === page.id ? pageDraft : null;
                            return (
-                             <div key={img.id} className="bg-white rounded-xl shadow border border-gray-200 overflow-hidden">
+                             <div key={page.id} className="bg-white rounded-xl shadow border border-gray-200 overflow-hidden relative">
                                 <div className="bg-purple-600 text-white text-xs font-bold px-2 py-1 absolute z-10 m-2 rounded shadow">
-                                   {idx + 1}/{state.generatedImages.length}
+                                   {idx + 1}/{deckSlides.length}
+                                </div>
+                                <div className="relative">
+                                   {image ? (
+                                      <img src={displayUrl(image)} className={`w-full ${ASPECT_CLASS[state.aspectRatio]} object-cover`} />
+                                   ) : (
+                                      <div className={`w-full ${ASPECT_CLASS[state.aspectRatio]} bg-gray-100 border-b border-dashed border-gray-300 flex flex-col items-center justify-center text-gray-400 gap-1`}>
+                                         <ExclamationTriangleIcon className="w-8 h-8" />
+                                         <span className="text-xs">生成に失敗しました</span>
+                                      </div>
+                                   )}
+                                   {isRegenerating && (
+                                      <div className="absolute inset-0 bg-white/80 flex items-center justify-center gap-2 text-purple-600 text-sm font-semibold">
+                                         <ArrowPathIcon className="w-5 h-5 animate-spin" /> 再生成中...
+                                      </div>
+                                   )}
                                 </div>
-                                <img src={img.url} className="w-full aspect-video object-cover" />
                                 <div className="p-4">
-                                   <h4 className="font-bold text-gray-900 text-sm mb-1 truncate">{pageInfo?.title || `Page ${idx+1}`}</h4>
-                                   <p className="text-xs text-purple-600 mb-2 truncate">{pageInfo?.content}</p>
-                                   <button className="w-full bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs font-medium py-2 rounded">
-                                      画像DL
-                                   </button>
+                                   {draft ? (
+                                      <div className="space-y-2">
+                                         <input
+                                            type="text"
+                                            className="w-full p-2 border border-gray-300 rounded bg-white text-sm"
+                                            value={draft.title}
+                                            onChange={(e) => setPageDraft({ ...draft, title: e.target.value })}
+                                         />
+                                         <textarea
+                                            className="w-full p-2 border border-gray-300 rounded bg-white text-xs h-16 resize-none"
+                                            value={draft.content}
+                                            onChange={(e) => setPageDraft({ ...draft, content: e.target.value })}
+                                         />
+                                         <input
+                                            type="text"
+                                            className="w-full p-2 border border-gray-300 rounded bg-white text-xs"
+                                            placeholder="🎨 視覚表現"
+                                            value={draft.visualCue}
+                                            onChange={(e) => setPageDraft({ ...draft, visualCue: e.target.value })}
+                                         />
+                                         <div className="flex gap-2">
+                                            <button
+                                               onClick={() => handleRegeneratePage(draft)}
+                                               className="flex-1 bg-purple-600 hover:bg-purple-700 text-white text-xs font-medium py-2 rounded"
+                                            >
+                                               この内容で再生成
+                                            </button>
+                                            <button
+                                               onClick={() => setPageDraft(null)}
+                                               className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs font-medium py-2 rounded"
+                                            >
+                                               キャンセル
+                                            </button>
+                                         </div>
+                                      </div>
+                                   ) : (
+                                      <>
+                                         <h4 className="font-bold text-gray-900 text-sm mb-1 truncate">{page.title || `Page ${idx+1}`}</h4>
+                                         <p className="text-xs text-purple-600 mb-2 truncate">{page.content}</p>
+                                         {page.speakerNotes && (
+                                            <details className="mb-2 text-xs text-gray-600">
+                                               <summary className="cursor-pointer text-gray-500">🎤 スピーカーノート</summary>
+                                               <p className="mt-1 whitespace-pre-wrap bg-gray-50 rounded p-2">{page.speakerNotes}</p>
+                                            </details>
+                                         )}
+                                         <div className="grid grid-cols-3 gap-2">
+                                            <button disabled={!image} className="bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs font-medium py-2 rounded disabled:opacity-50">
+                                               画像DL
+                                            </button>
+                                            <button
+                                               onClick={() => handleRegeneratePage(page)}
+                                               disabled={isRegenerating}
+                                               className="bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs font-medium py-2 rounded disabled:opacity-50"
+                                            >
+                                               再生成
+                                            </button>
+                                            <button
+                                               onClick={() => setPageDraft({ ...page })}
+                                               disabled={isRegenerating}
+                                               className="bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs font-medium py-2 rounded disabled:opacity-50"
+                                            >
+                                               編集して再生成
+                                            </button>
+                                         </div>
+                                         {image && (
+                                            <div className="mt-2 flex gap-2">
+                                               {image.textLayer && (
+                                                  <button
+                                                     onClick={() => setTextLayerImageId(image.id)}
+                                                     disabled={isRegenerating}
+                                                     className="flex-1 bg-purple-50 hover:bg-purple-100 text-purple-700 text-xs font-medium py-2 rounded disabled:opacity-50"
+                                                  >
+                                                     文字を編集
+                                                  </button>
+                                               )}
+                                               <button
+                                                  onClick={() => setHistoryImageId(image.id)}
+                                                  disabled={isRegenerating}
+                                                  className="flex-1 bg-gray-50 hover:bg-gray-100 text-gray-600 text-xs font-medium py-2 rounded flex items-center justify-center gap-1 disabled:opacity-50"
+                                               >
+                                                  <ClockIcon className="w-3.5 h-3.5" /> 履歴 ({getVersionCount(image)})
+                                               </button>
+                                            </div>
+                                         )}
+                                      </>
+                                   )}
                                 </div>
                              </div>
                            );
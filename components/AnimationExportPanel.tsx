@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowPathIcon, ArrowDownTrayIcon, CloudArrowUpIcon, FilmIcon } from '@heroicons/react/24/outline';
+import {
+  ANIMATION_FORMATS,
+  AnimationFormat,
+  createAnimatedGif,
+  createWebm,
+  isWebmSupported
+} from '../services/animationExportService';
+import { downloadBlob } from '../services/downloadService';
+import { GeneratedImage } from '../types';
+
+interface AnimationExportPanelProps {
+  steps: GeneratedImage[]; // animation steps in order
+  fileBaseName: string;
+  onUploadToDrive: (blob: Blob, fileName: string) => Promise<void>;
+}
+
+const PLAY_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 0, label: '無限ループ' },
+  { value: 1, label: '1回再生' },
+  { value: 2, label: '2回再生' },
+  { value: 3, label: '3回再生' }
+];
+
+/**
+ * Builds an animated GIF / WebM from the animation steps, with preview, download and Drive upload
+ */
+const AnimationExportPanel: React.FC<AnimationExportPanelProps> = ({ steps, fileBaseName, onUploadToDrive }) => {
+  const [format, setFormat] = useState<AnimationFormat>('gif');
+  const [frameSeconds, setFrameSeconds] = useState<number>(1.5);
+  const [crossfadeSeconds, setCrossfadeSeconds] = useState<number>(0.4);
+  const [useCrossfade, setUseCrossfade] = useState<boolean>(true);
+  const [plays, setPlays] = useState<number>(0);
+  const [isEncoding, setIsEncoding] = useState<boolean>(false);
+  const [isUploading, setIsUploading] = useState<boolean>(false);
+  const [result, setResult] = useState<{ blob: Blob; url: string; fileName: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stepsKey = steps.map(step => step.id).join(',');
+
+  // Any setting or step change invalidates the rendered file
+  useEffect(() => {
+    setResult(null);
+  }, [format, frameSeconds, crossfadeSeconds, useCrossfade, plays, stepsKey]);
+
+  useEffect(() => () => {
+    if (result) URL.revokeObjectURL(result.url);
+  }, [result]);
+
+  const handleRender = async () => {
+    setIsEncoding(true);
+    setError(null);
+    try {
+      const options = {
+        frameDurationMs: frameSeconds * 1000,
+        crossfadeMs: useCrossfade ? crossfadeSeconds * 1000 : 0,
+        plays
+      };
+      const imageUrls = steps.map(step => step.url);
+      const blob = format === 'gif'
+        ? await createAnimatedGif(imageUrls, options)
+        : await createWebm(imageUrls, options);
+      setResult({ blob, url: URL.createObjectURL(blob), fileName: `${fileBaseName}.${ANIMATION_FORMATS[format].extension}` });
+    } catch (err: any) {
+      console.error(err);
+      setError(`書き出しに失敗しました: ${err?.message || '不明なエラー'}`);
+    } finally {
+      setIsEncoding(false);
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!result) return;
+    setIsUploading(true);
+    try {
+      await onUploadToDrive(result.blob, result.fileName);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const webmAvailable = isWebmSupported();
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 space-y-4">
+      <div className="flex items-center gap-2 text-gray-800">
+        <FilmIcon className="w-5 h-5 text-purple-600" />
+        <h3 className="font-bold text-sm">アニメーションとして書き出す</h3>
+        <span className="text-xs text-gray-400">{steps.length}ステップ</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 text-xs text-gray-600">
+        <label className="space-y-1">
+          <span className="block font-semibold">形式</span>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as AnimationFormat)}
+            className="w-full border border-gray-300 rounded-lg px-2 py-1.5 text-sm"
+          >
+            {(Object.keys(ANIMATION_FORMATS) as AnimationFormat[]).map(key => (
+              <option key={key} value={key} disabled={key === 'webm' && !webmAvailable}>{ANIMATION_FORMATS[key].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block font-semibold">ループ</span>
+          <select
+            value={plays}
+            onChange={(e) => setPlays(Number(e.target.value))}
+            className="w-full border border-gray-300 rounded-lg px-2 py-1.5 text-sm"
+          >
+            {PLAY_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block font-semibold">1ステップの表示時間 (秒)</span>
+          <input
+            type="number"
+            min={0.2}
+            max={10}
+            step={0.1}
+            value={frameSeconds}
+            onChange={(e) => setFrameSeconds(Math.min(10, Math.max(0.2, Number(e.target.value) || 0.2)))}
+            className="w-full border border-gray-300 rounded-lg px-2 py-1.5 text-sm"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="flex items-center gap-1 font-semibold">
+            <input
+              type="checkbox"
+              checked={useCrossfade}
+              onChange={(e) => setUseCrossfade(e.target.checked)}
+              className="rounded text-purple-600 focus:ring-purple-500"
+            />
+            クロスフェード (秒)
+          </span>
+          <input
+            type="number"
+            min={0.1}
+            max={3}
+            step={0.1}
+            value={crossfadeSeconds}
+            disabled={!useCrossfade}
+            onChange={(e) => setCrossfadeSeconds(Math.min(3, Math.max(0.1, Number(e.target.value) || 0.1)))}
+            className="w-full border border-gray-300 rounded-lg px-2 py-1.5 text-sm disabled:bg-gray-50"
+          />
+        </label>
+      </div>
+
+      {format === 'webm' && (
+        <p className="text-xs text-gray-400">WebMは再生時間と同じだけ書き出しに時間がかかります。</p>
+      )}
+
+      <button
+        onClick={handleRender}
+        disabled={isEncoding || steps.length < 2}
+        className="w-full bg-purple-600 hover:bg-purple-700 text-white py-2 rounded-lg text-sm font-semibold flex items-center justify-center gap-2 disabled:bg-gray-300"
+      >
+        {isEncoding ? <><ArrowPathIcon className="w-4 h-4 animate-spin" /> 書き出し中...</> : `${ANIMATION_FORMATS[format].label}を作成`}
+      </button>
+      {steps.length < 2 && <p className="text-xs text-gray-400">2ステップ以上の画像が必要です。</p>}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {result && (
+        <div className="space-y-3">
+          {result.blob.type === 'image/gif'
+            ? <img src={result.url} alt="アニメーションのプレビュー" className="w-full rounded-lg border border-gray-100" />
+            : <video src={result.url} controls autoPlay loop={plays === 0} muted className="w-full rounded-lg border border-gray-100" />}
+          <div className="flex gap-2">
+            <button
+              onClick={() => downloadBlob(result.blob, result.fileName)}
+              className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-800 py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-1"
+            >
+              <ArrowDownTrayIcon className="w-4 h-4" /> ダウンロード
+            </button>
+            <button
+              onClick={handleUpload}
+              disabled={isUploading}
+              className="flex-1 bg-blue-500 hover:bg-blue-600 text-white py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-1 disabled:opacity-50"
+            >
+              {isUploading ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : <CloudArrowUpIcon className="w-4 h-4" />} ドライブに保存
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnimationExportPanel;
@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon, ArrowPathIcon, BoltIcon, CheckIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { BatchEditItem, GeneratedImage } from '../types';
+import BeforeAfterSlider from './BeforeAfterSlider';
+
+export interface BatchEditSlide {
+  id: string; // Stable across edits (the page id), unlike the image shown in the slot
+  image: GeneratedImage;
+  title: string;
+}
+
+interface BatchEditDialogProps {
+  slides: BatchEditSlide[]; // Current deck images in page order
+  items: BatchEditItem[];
+  renderImage: (image: GeneratedImage) => Promise<string>; // Flattened as the slide is displayed
+  onRun: (instruction: string, imageIds: string[]) => void;
+  onAccept: (sourceIds: string[]) => void;
+  onDiscard: (sourceIds: string[]) => void;
+  onClose: () => void;
+}
+
+const BatchEditResultRow: React.FC<{
+  item: BatchEditItem;
+  slide: BatchEditSlide | undefined;
+  label: string;
+  renderImage: (image: GeneratedImage) => Promise<string>;
+  onAccept: () => void;
+  onDiscard: () => void;
+}> = ({ item, slide, label, renderImage, onAccept, onDiscard }) => {
+  const [urls, setUrls] = useState<{ before: string; after: string } | null>(null);
+
+  useEffect(() => {
+    if (!slide || !item.result) return;
+    let cancelled = false;
+    Promise.all([renderImage(slide.image), renderImage(item.result)])
+      .then(([before, after]) => { if (!cancelled) setUrls({ before, after }); })
+      .catch(error => console.error('Batch edit preview failed', error));
+    return () => { cancelled = true; };
+  }, [slide?.image.id, item.result?.id]);
+
+  return (
+    <li className="border border-gray-200 rounded-xl p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-gray-800 truncate">{label}</span>
+        {item.status === 'pending' && (
+          <span className="text-xs text-purple-600 flex items-center gap-1 shrink-0"><ArrowPathIcon className="w-4 h-4 animate-spin" /> 編集中...</span>
+        )}
+        {item.status === 'accepted' && <span className="text-xs text-green-700 flex items-center gap-1 shrink-0"><CheckIcon className="w-4 h-4" /> 採用済み</span>}
+        {item.status === 'discarded' && <span className="text-xs text-gray-400 shrink-0">破棄</span>}
+      </div>
+
+      {item.status === 'failed' && (
+        <div className="text-xs text-red-700 bg-red-50 rounded p-2 flex gap-1">
+          <ExclamationTriangleIcon className="w-4 h-4 shrink-0" /> {item.error || '編集に失敗しました'}
+        </div>
+      )}
+
+      {item.status === 'done' && (
+        <>
+          {urls ? (
+            <BeforeAfterSlider beforeUrl={urls.before} afterUrl={urls.after} beforeLabel="現在" afterLabel="編集後" />
+          ) : (
+            <div className="aspect-video bg-gray-50 rounded-lg flex items-center justify-center text-gray-300">
+              <ArrowPathIcon className="w-5 h-5 animate-spin" />
+            </div>
+          )}
+          {!slide && <p className="text-xs text-amber-700">このスライドは変更されたため採用できません。</p>}
+          <div className="flex justify-end gap-2">
+            <button onClick={onDiscard} className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-1.5 rounded-lg text-xs font-medium">
+              破棄
+            </button>
+            <button
+              onClick={onAccept}
+              disabled={!slide}
+              className="bg-purple-600 hover:bg-purple-700 text-white px-3 py-1.5 rounded-lg text-xs font-semibold disabled:bg-gray-300"
+            >
+              採用
+            </button>
+          </div>
+        </>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Applies one instruction to all or selected slides and lets each result be accepted or discarded
+ */
+const BatchEditDialog: React.FC<BatchEditDialogProps> = ({ slides, items, renderImage, onRun, onAccept, onDiscard, onClose }) => {
+  const [instruction, setInstruction] = useState<string>('');
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => slides.map(slide => slide.id));
+
+  const isRunning = items.some(item => item.status === 'pending');
+  const finishedCount = items.filter(item => item.status !== 'pending').length;
+  const reviewableIds = items.filter(item => item.status === 'done').map(item => item.sourceId);
+  // A result can only be accepted while its source is still the image shown in the slot
+  const acceptableIds = reviewableIds.filter(id => slides.some(slide => slide.image.id === id));
+
+  const toggleSlide = (id: string) =>
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+
+  const handleRun = () => {
+    if (reviewableIds.length > 0 && !confirm('未確認の編集結果があります。破棄して新しい一括編集を始めますか？')) return;
+    onRun(instruction, slides.filter(slide => selectedIds.includes(slide.id)).map(slide => slide.image.id));
+  };
+
+  // Accepted results have taken their source's place in the deck
+  const labelFor = (item: BatchEditItem) => {
+    const index = slides.findIndex(slide => slide.image.id === item.sourceId || slide.image.id === item.result?.id);
+    return index >= 0 ? `${index + 1}. ${slides[index].title}` : 'スライド';
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">一括編集</h2>
+            <p className="text-xs text-gray-500">同じ修正指示を複数のスライドに適用し、結果を1枚ずつ採用または破棄します。</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-50">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-2/5 p-6 overflow-y-auto space-y-4 border-r border-gray-100">
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">修正指示</span>
+              <textarea
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                placeholder="例: 見出しの色をすべて紺色にする"
+                className="w-full h-24 p-2 border border-gray-300 rounded-lg text-sm resize-none"
+              />
+            </label>
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium text-gray-700">対象スライド ({selectedIds.length}/{slides.length})</span>
+                <button
+                  onClick={() => setSelectedIds(selectedIds.length === slides.length ? [] : slides.map(slide => slide.id))}
+                  className="text-xs text-purple-600 hover:underline"
+                >
+                  {selectedIds.length === slides.length ? 'すべて解除' : 'すべて選択'}
+                </button>
+              </div>
+              <ul className="space-y-1">
+                {slides.map((slide, idx) => (
+                  <li key={slide.id}>
+                    <label className="flex items-center gap-2 p-1 rounded hover:bg-gray-50 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(slide.id)}
+                        onChange={() => toggleSlide(slide.id)}
+                        className="w-4 h-4 text-purple-600 rounded border-gray-300 focus:ring-purple-500"
+                      />
+                      <img src={slide.image.url} alt="" className="w-14 h-8 object-cover rounded border border-gray-200" />
+                      <span className="text-xs text-gray-700 truncate">{idx + 1}. {slide.title}</span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <button
+              onClick={handleRun}
+              disabled={!instruction.trim() || selectedIds.length === 0 || isRunning}
+              className="w-full bg-purple-600 hover:bg-purple-700 text-white py-2 rounded-lg text-sm font-semibold flex items-center justify-center gap-2 disabled:bg-gray-300"
+            >
+              {isRunning ? (
+                <><ArrowPathIcon className="w-4 h-4 animate-spin" /> 編集中 ({finishedCount}/{items.length})</>
+              ) : (
+                <><BoltIcon className="w-4 h-4" /> {selectedIds.length}枚に適用</>
+              )}
+            </button>
+          </div>
+
+          <div className="w-3/5 p-6 overflow-y-auto space-y-3">
+            {items.length === 0 ? (
+              <p className="text-sm text-gray-400 text-center mt-12">指示を入力して対象スライドを選ぶと、ここに結果が表示されます。</p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600">{finishedCount}/{items.length}枚 完了</span>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => onDiscard(reviewableIds)}
+                      disabled={reviewableIds.length === 0}
+                      className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-1.5 rounded-lg text-xs font-medium disabled:opacity-50"
+                    >
+                      残りをすべて破棄
+                    </button>
+                    <button
+                      onClick={() => onAccept(acceptableIds)}
+                      disabled={acceptableIds.length === 0}
+                      className="bg-purple-600 hover:bg-purple-700 text-white px-3 py-1.5 rounded-lg text-xs font-semibold disabled:bg-gray-300"
+                    >
+                      残りをすべて採用
+                    </button>
+                  </div>
+                </div>
+                <ul className="space-y-3">
+                  {items.map(item => (
+                    <BatchEditResultRow
+                      key={item.sourceId}
+                      item={item}
+                      slide={slides.find(slide => slide.image.id === item.sourceId)}
+                      label={labelFor(item)}
+                      renderImage={renderImage}
+                      onAccept={() => onAccept([item.sourceId])}
+                      onDiscard={() => onDiscard([item.sourceId])}
+                    />
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchEditDialog;
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+
+interface BeforeAfterSliderProps {
+  beforeUrl: string;
+  afterUrl: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+/**
+ * Two images stacked; dragging the handle reveals the "before" image from the left
+ */
+const BeforeAfterSlider: React.FC<BeforeAfterSliderProps> = ({ beforeUrl, afterUrl, beforeLabel, afterLabel }) => {
+  const [position, setPosition] = useState<number>(50);
+
+  return (
+    <div className="relative w-full select-none rounded-lg overflow-hidden border border-gray-200">
+      <img src={afterUrl} alt={afterLabel} className="block w-full" />
+      <img
+        src={beforeUrl}
+        alt={beforeLabel}
+        className="absolute inset-0 w-full h-full object-cover"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+      />
+      <div className="absolute inset-y-0 w-0.5 bg-white shadow" style={{ left: `${position}%` }} />
+      <span className="absolute top-2 left-2 bg-gray-900/70 text-white text-xs px-2 py-0.5 rounded">{beforeLabel}</span>
+      <span className="absolute top-2 right-2 bg-purple-600/90 text-white text-xs px-2 py-0.5 rounded">{afterLabel}</span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+        aria-label="比較位置"
+      />
+    </div>
+  );
+};
+
+export default BeforeAfterSlider;
@@ -0,0 +1,285 @@
+import React, { useRef, useState } from 'react';
+import { XMarkIcon, PlusIcon, TrashIcon, PhotoIcon } from '@heroicons/react/24/outline';
+import { BrandKit, Complexity } from '../types';
+import { createBrandKit, isValidHexColor, prepareLogo } from '../services/brandKitService';
+
+interface BrandKitEditorProps {
+  kits: BrandKit[];
+  initialKitId: string | null;
+  onChange: (kits: BrandKit[]) => void;
+  onClose: () => void;
+}
+
+const COMPLEXITY_LABELS: Record<Complexity, string> = {
+  [Complexity.STANDARD]: '標準',
+  [Complexity.LIGHT]: 'ライト',
+  [Complexity.SIMPLE]: '非常にシンプル'
+};
+
+// One rule per line in the textarea
+const toLines = (text: string): string[] => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+/**
+ * Modal for creating and editing brand kits (stored in this browser)
+ */
+const BrandKitEditor: React.FC<BrandKitEditorProps> = ({ kits, initialKitId, onChange, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(initialKitId ?? kits[0]?.id ?? null);
+  const [draft, setDraft] = useState<BrandKit | null>(kits.find(kit => kit.id === (initialKitId ?? kits[0]?.id)) ?? null);
+  const [dosText, setDosText] = useState<string>(draft?.dos.join('\n') ?? '');
+  const [dontsText, setDontsText] = useState<string>(draft?.donts.join('\n') ?? '');
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const selectKit = (kit: BrandKit) => {
+    setSelectedId(kit.id);
+    setDraft(kit);
+    setDosText(kit.dos.join('\n'));
+    setDontsText(kit.donts.join('\n'));
+  };
+
+  const handleCreate = () => {
+    const kit = createBrandKit();
+    onChange([...kits, kit]);
+    selectKit(kit);
+  };
+
+  const handleDelete = () => {
+    if (!draft || !confirm(`「${draft.name}」を削除しますか？`)) return;
+    const remaining = kits.filter(kit => kit.id !== draft.id);
+    onChange(remaining);
+    if (remaining[0]) {
+      selectKit(remaining[0]);
+    } else {
+      setSelectedId(null);
+      setDraft(null);
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const saved: BrandKit = {
+      ...draft,
+      name: draft.name.trim() || '名称未設定',
+      colors: draft.colors.filter(color => isValidHexColor(color.hex)).map(color => ({ ...color, hex: color.hex.toUpperCase() })),
+      dos: toLines(dosText),
+      donts: toLines(dontsText)
+    };
+    onChange(kits.map(kit => kit.id === saved.id ? saved : kit));
+    selectKit(saved);
+  };
+
+  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = async () => {
+      try {
+        const logo = await prepareLogo(reader.result as string);
+        setDraft(prev => prev ? { ...prev, logo } : prev);
+      } catch (error: any) {
+        alert(error?.message || 'ロゴ画像を読み込めませんでした');
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const updateColor = (index: number, field: 'name' | 'hex', value: string) => {
+    setDraft(prev => prev ? {
+      ...prev,
+      colors: prev.colors.map((color, i) => i === index ? { ...color, [field]: value } : color)
+    } : prev);
+  };
+
+  const savedKit = kits.find(kit => kit.id === selectedId);
+  const isDirty = !!draft && !!savedKit && (
+    JSON.stringify(draft) !== JSON.stringify(savedKit) ||
+    dosText !== savedKit.dos.join('\n') ||
+    dontsText !== savedKit.donts.join('\n')
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">ブランドキット</h2>
+            <p className="text-xs text-gray-500">このブラウザに保存され、選択中のキットはすべての生成プロンプトに反映されます。</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-50">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-60 border-r border-gray-100 flex flex-col">
+            <ul className="flex-1 overflow-y-auto py-2">
+              {kits.map(kit => (
+                <li key={kit.id}>
+                  <button
+                    onClick={() => selectKit(kit)}
+                    className={`w-full text-left px-4 py-2 text-sm ${selectedId === kit.id ? 'bg-purple-50 text-purple-700 font-semibold' : 'text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    <div>{kit.name}</div>
+                    <div className="flex gap-1 mt-1">
+                      {kit.colors.map((color, index) => (
+                        <span key={index} className="w-3 h-3 rounded-full border border-gray-200" style={{ backgroundColor: color.hex }} />
+                      ))}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={handleCreate}
+              className="m-3 text-sm text-purple-600 hover:text-purple-800 font-medium flex items-center justify-center gap-1 border border-dashed border-purple-200 rounded-lg py-2"
+            >
+              <PlusIcon className="w-4 h-4" /> 新規作成
+            </button>
+          </div>
+
+          {draft ? (
+            <div className="flex-1 p-6 overflow-y-auto space-y-5">
+              <div className="grid grid-cols-2 gap-4">
+                <label className="block">
+                  <span className="block text-sm font-medium text-gray-700 mb-1">キット名</span>
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+                <label className="block">
+                  <span className="block text-sm font-medium text-gray-700 mb-1">デフォルトの複雑さ</span>
+                  <select
+                    value={draft.defaultComplexity}
+                    onChange={(e) => setDraft({ ...draft, defaultComplexity: e.target.value as Complexity })}
+                    className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {Object.values(Complexity).map(value => (
+                      <option key={value} value={value}>{COMPLEXITY_LABELS[value]}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-1">カラーパレット</span>
+                <div className="space-y-2">
+                  {draft.colors.map((color, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="color"
+                        value={isValidHexColor(color.hex) ? color.hex : '#000000'}
+                        onChange={(e) => updateColor(index, 'hex', e.target.value.toUpperCase())}
+                        className="w-9 h-9 rounded border border-gray-300 cursor-pointer"
+                      />
+                      <input
+                        type="text"
+                        value={color.hex}
+                        onChange={(e) => updateColor(index, 'hex', e.target.value)}
+                        className={`w-28 p-2 border rounded-lg text-sm font-mono ${isValidHexColor(color.hex) ? 'border-gray-300' : 'border-red-400'}`}
+                        placeholder="#RRGGBB"
+                      />
+                      <input
+                        type="text"
+                        value={color.name}
+                        onChange={(e) => updateColor(index, 'name', e.target.value)}
+                        className="flex-1 p-2 border border-gray-300 rounded-lg text-sm"
+                        placeholder="例: メインカラー"
+                      />
+                      <button
+                        onClick={() => setDraft({ ...draft, colors: draft.colors.filter((_, i) => i !== index) })}
+                        className="p-2 text-gray-400 hover:text-red-600"
+                        title="削除"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setDraft({ ...draft, colors: [...draft.colors, { name: '', hex: '#000000' }] })}
+                  className="mt-2 text-sm text-purple-600 hover:text-purple-800 flex items-center gap-1"
+                >
+                  <PlusIcon className="w-4 h-4" /> 色を追加
+                </button>
+              </div>
+
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 mb-1">フォントの方向性</span>
+                <input
+                  type="text"
+                  value={draft.fonts}
+                  onChange={(e) => setDraft({ ...draft, fonts: e.target.value })}
+                  className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                  placeholder="例: 見出しは太めのゴシック体、本文は細めのゴシック体"
+                />
+              </label>
+
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-1">ロゴ</span>
+                <div className="flex items-center gap-3">
+                  <div className="w-24 h-16 rounded-lg border border-gray-200 bg-gray-50 flex items-center justify-center overflow-hidden">
+                    {draft.logo
+                      ? <img src={draft.logo} alt="ロゴ" className="max-w-full max-h-full object-contain" />
+                      : <PhotoIcon className="w-6 h-6 text-gray-300" />}
+                  </div>
+                  <input type="file" ref={logoInputRef} className="hidden" accept="image/*" onChange={handleLogoUpload} />
+                  <button onClick={() => logoInputRef.current?.click()} className="text-sm text-purple-600 hover:text-purple-800 font-medium">
+                    画像を選択
+                  </button>
+                  {draft.logo && (
+                    <button onClick={() => setDraft({ ...draft, logo: null })} className="text-sm text-gray-500 hover:text-red-600">
+                      削除
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <label className="block">
+                  <span className="block text-sm font-medium text-gray-700 mb-1">守ること (1行に1つ)</span>
+                  <textarea
+                    value={dosText}
+                    onChange={(e) => setDosText(e.target.value)}
+                    className="w-full h-28 p-2 border border-gray-300 rounded-lg text-sm resize-none"
+                    placeholder="例: 余白を広く取る"
+                  />
+                </label>
+                <label className="block">
+                  <span className="block text-sm font-medium text-gray-700 mb-1">避けること (1行に1つ)</span>
+                  <textarea
+                    value={dontsText}
+                    onChange={(e) => setDontsText(e.target.value)}
+                    className="w-full h-28 p-2 border border-gray-300 rounded-lg text-sm resize-none"
+                    placeholder="例: 写真のような人物表現"
+                  />
+                </label>
+              </div>
+
+              <div className="flex items-center justify-between pt-2">
+                <button onClick={handleDelete} className="text-sm text-gray-500 hover:text-red-600 flex items-center gap-1">
+                  <TrashIcon className="w-4 h-4" /> このキットを削除
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={!isDirty}
+                  className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:bg-gray-300"
+                >
+                  保存
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-sm text-gray-400">
+              ブランドキットがありません。「新規作成」から追加してください。
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrandKitEditor;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { SwatchIcon } from '@heroicons/react/24/outline';
+import { BrandKit } from '../types';
+
+interface BrandKitSelectorProps {
+  kits: BrandKit[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onManage: () => void;
+}
+
+/**
+ * Dropdown for choosing the brand kit applied to generation
+ */
+const BrandKitSelector: React.FC<BrandKitSelectorProps> = ({ kits, selectedId, onSelect, onManage }) => {
+  const selectedKit = kits.find(kit => kit.id === selectedId);
+
+  return (
+    <div className="flex items-center gap-2">
+      <SwatchIcon className="w-4 h-4 text-gray-400 shrink-0" />
+      <select
+        value={selectedId ?? ''}
+        onChange={(e) => onSelect(e.target.value || null)}
+        className="flex-1 p-2 border border-gray-300 rounded-lg text-sm"
+      >
+        <option value="">ブランドキットなし</option>
+        {kits.map(kit => (
+          <option key={kit.id} value={kit.id}>{kit.name}</option>
+        ))}
+      </select>
+      {selectedKit && (
+        <div className="flex gap-0.5">
+          {selectedKit.colors.slice(0, 5).map((color, index) => (
+            <span key={index} className="w-3 h-3 rounded-full border border-gray-200" style={{ backgroundColor: color.hex }} title={`${color.name} ${color.hex}`} />
+          ))}
+        </div>
+      )}
+      <button onClick={onManage} className="text-sm text-purple-600 hover:text-purple-800 font-medium whitespace-nowrap">
+        管理
+      </button>
+    </div>
+  );
+};
+
+export default BrandKitSelector;
@@ -0,0 +1,217 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { XMarkIcon, ExclamationTriangleIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { PresentationPage } from '../types';
+import {
+  CSV_COLUMN_TARGETS,
+  CsvColumnTarget,
+  CsvEncoding,
+  DecodedCsv,
+  buildOutlineFromCsv,
+  decodeCsv,
+  detectHeaderRow,
+  guessColumnMapping,
+  parseCSV
+} from '../services/csvImportService';
+
+interface CsvImportDialogProps {
+  file: File;
+  onImport: (pages: PresentationPage[]) => void;
+  onClose: () => void;
+}
+
+const ENCODING_OPTIONS: Array<{ value: CsvEncoding | 'auto'; label: string }> = [
+  { value: 'auto', label: '自動判定' },
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'shift_jis', label: 'Shift_JIS' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' }
+];
+
+const PREVIEW_ROWS = 8;
+
+/**
+ * Modal for previewing a CSV file and mapping its columns to outline fields before import
+ */
+const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ file, onImport, onClose }) => {
+  const [encoding, setEncoding] = useState<CsvEncoding | 'auto'>('auto');
+  const [decoded, setDecoded] = useState<DecodedCsv | null>(null);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState<boolean>(false);
+  const [mapping, setMapping] = useState<CsvColumnTarget[]>([]);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    file.arrayBuffer()
+      .then(buffer => {
+        if (cancelled) return;
+        const result = decodeCsv(buffer, encoding === 'auto' ? undefined : encoding);
+        const parsed = parseCSV(result.text);
+        const header = detectHeaderRow(parsed);
+        setDecoded(result);
+        setRows(parsed);
+        setHasHeader(header);
+        setMapping(guessColumnMapping(parsed, header));
+        setReadError(null);
+      })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) setReadError('CSVの読み込みに失敗しました。');
+      });
+    return () => { cancelled = true; };
+  }, [file, encoding]);
+
+  const result = useMemo(
+    () => mapping.length > 0 ? buildOutlineFromCsv(rows, mapping, hasHeader) : { pages: [], issues: [] },
+    [rows, mapping, hasHeader]
+  );
+  const errorRows = new Set(result.issues.filter(issue => issue.severity === 'error').map(issue => issue.row));
+  const previewRows = rows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + PREVIEW_ROWS);
+
+  const handleHeaderToggle = (checked: boolean) => {
+    setHasHeader(checked);
+    setMapping(guessColumnMapping(rows, checked));
+  };
+
+  const handleMappingChange = (col: number, target: CsvColumnTarget) => {
+    // Each field can come from one column only
+    setMapping(prev => prev.map((current, index) => {
+      if (index === col) return target;
+      return target !== 'ignore' && current === target ? 'ignore' : current;
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">CSVの読み込み</h2>
+            <p className="text-xs text-gray-500">{file.name} の各列をどの項目として読み込むか指定してください。</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-50">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2 text-gray-700">
+              文字コード
+              <select
+                value={encoding}
+                onChange={(e) => setEncoding(e.target.value as CsvEncoding | 'auto')}
+                className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+              >
+                {ENCODING_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            {decoded && (
+              <span className="text-xs text-gray-500">
+                判定結果: {decoded.encoding.toUpperCase()}{decoded.hadBom ? ' (BOMあり)' : ''}
+              </span>
+            )}
+            <label className="flex items-center gap-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={hasHeader}
+                onChange={(e) => handleHeaderToggle(e.target.checked)}
+                className="rounded text-purple-600 focus:ring-purple-500"
+              />
+              1行目は見出し
+            </label>
+          </div>
+
+          {readError && <p className="text-sm text-red-600">{readError}</p>}
+
+          {!decoded && !readError && (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <ArrowPathIcon className="w-4 h-4 animate-spin" /> 読み込み中...
+            </div>
+          )}
+
+          {mapping.length > 0 && (
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-2 py-2 text-left text-gray-400 font-normal">行</th>
+                    {mapping.map((target, col) => (
+                      <th key={col} className="px-2 py-2 text-left align-top">
+                        <select
+                          value={target}
+                          onChange={(e) => handleMappingChange(col, e.target.value as CsvColumnTarget)}
+                          className={`border rounded px-1 py-1 text-xs ${target === 'ignore' ? 'border-gray-200 text-gray-400' : 'border-purple-300 text-purple-700 font-semibold'}`}
+                        >
+                          {CSV_COLUMN_TARGETS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                        {hasHeader && <div className="mt-1 text-gray-500 font-normal truncate max-w-[160px]">{rows[0][col]}</div>}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {previewRows.map((cols, index) => {
+                    const row = index + (hasHeader ? 2 : 1);
+                    return (
+                      <tr key={row} className={`border-t border-gray-100 ${errorRows.has(row) ? 'bg-red-50' : ''}`}>
+                        <td className="px-2 py-1 text-gray-400">{row}</td>
+                        {mapping.map((target, col) => (
+                          <td key={col} className={`px-2 py-1 align-top max-w-[200px] truncate ${target === 'ignore' ? 'text-gray-300' : 'text-gray-700'}`}>
+                            {cols[col]}
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {rows.length - (hasHeader ? 1 : 0) > PREVIEW_ROWS && (
+                <p className="px-2 py-1 text-xs text-gray-400 border-t border-gray-100">
+                  他 {rows.length - (hasHeader ? 1 : 0) - PREVIEW_ROWS} 行
+                </p>
+              )}
+            </div>
+          )}
+
+          {result.issues.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 max-h-48 overflow-y-auto">
+              <p className="text-sm font-semibold text-amber-800 flex items-center gap-1 mb-1">
+                <ExclamationTriangleIcon className="w-4 h-4" /> 確認が必要な行があります
+              </p>
+              <ul className="text-xs space-y-0.5">
+                {result.issues.map((issue, index) => (
+                  <li key={index} className={issue.severity === 'error' ? 'text-red-700' : 'text-amber-700'}>
+                    {issue.row > 0 ? `${issue.row}行目: ` : ''}{issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-gray-100">
+          <span className="text-sm text-gray-600">{result.pages.length} ページを読み込みます</span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm text-gray-600 hover:bg-gray-50">
+              キャンセル
+            </button>
+            <button
+              onClick={() => onImport(result.pages)}
+              disabled={result.pages.length === 0}
+              className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:bg-gray-300"
+            >
+              読み込む
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportDialog;
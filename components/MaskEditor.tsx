@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PaintBrushIcon, StopIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { loadImage } from '../services/canvasUtils';
+
+interface MaskEditorProps {
+  imageUrl: string; // Sets the mask resolution
+  onChange: (mask: string | null) => void; // Transparent PNG, opaque where the edit applies
+}
+
+type MaskTool = 'brush' | 'rect';
+
+const MASK_COLOR = 'rgb(168, 85, 247)';
+
+/**
+ * Brush / rectangle mask drawn over the selected image (place inside a relatively positioned container)
+ */
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number; snapshot: ImageData } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushPercent, setBrushPercent] = useState<number>(4);
+  const [hasMask, setHasMask] = useState<boolean>(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageUrl).then(image => {
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      setHasMask(false);
+      onChange(null);
+    }).catch(error => console.error(error));
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  const getContext = () => canvasRef.current?.getContext('2d') ?? null;
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * canvas.width / rect.width,
+      y: (e.clientY - rect.top) * canvas.height / rect.height
+    };
+  };
+
+  const brushSize = () => (canvasRef.current?.width ?? 0) * brushPercent / 100;
+
+  const paintLine = (ctx: CanvasRenderingContext2D, from: { x: number; y: number }, to: { x: number; y: number }) => {
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = getContext();
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e);
+    dragRef.current = { ...point, snapshot: ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height) };
+    if (tool === 'brush') paintLine(ctx, point, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = getContext();
+    const drag = dragRef.current;
+    if (!ctx || !drag) return;
+    const point = toCanvasPoint(e);
+    if (tool === 'brush') {
+      paintLine(ctx, drag, point);
+      dragRef.current = { ...drag, ...point };
+    } else {
+      // Redraw the rectangle from the state before this drag
+      ctx.putImageData(drag.snapshot, 0, 0);
+      ctx.fillStyle = MASK_COLOR;
+      ctx.fillRect(Math.min(drag.x, point.x), Math.min(drag.y, point.y), Math.abs(point.x - drag.x), Math.abs(point.y - drag.y));
+    }
+  };
+
+  const handlePointerUp = () => {
+    const canvas = canvasRef.current;
+    if (!dragRef.current || !canvas) return;
+    dragRef.current = null;
+    setHasMask(true);
+    onChange(canvas.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const ctx = getContext();
+    if (!ctx) return;
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    setHasMask(false);
+    onChange(null);
+  };
+
+  const toolClass = (active: boolean) =>
+    `p-1.5 rounded ${active ? 'bg-purple-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`;
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none z-[5]"
+      />
+      <div className="absolute top-3 left-3 z-[6] bg-white/95 rounded-lg shadow px-2 py-1.5 flex items-center gap-1 text-xs text-gray-700">
+        <button onClick={() => setTool('brush')} className={toolClass(tool === 'brush')} title="ブラシ">
+          <PaintBrushIcon className="w-4 h-4" />
+        </button>
+        <button onClick={() => setTool('rect')} className={toolClass(tool === 'rect')} title="矩形">
+          <StopIcon className="w-4 h-4" />
+        </button>
+        {tool === 'brush' && (
+          <input
+            type="range"
+            min={1}
+            max={15}
+            value={brushPercent}
+            onChange={(e) => setBrushPercent(Number(e.target.value))}
+            className="w-20 accent-purple-600 mx-1"
+            title="ブラシの太さ"
+          />
+        )}
+        <button onClick={handleClear} disabled={!hasMask} className="p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40" title="範囲をクリア">
+          <TrashIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default MaskEditor;
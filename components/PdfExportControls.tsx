@@ -0,0 +1,49 @@
+import React from 'react';
+import { ArrowPathIcon, DocumentArrowDownIcon } from '@heroicons/react/24/outline';
+import { HANDOUT_LAYOUTS } from '../services/pdfExportService';
+
+interface PdfExportControlsProps {
+  slidesPerPage: number;
+  onSlidesPerPageChange: (value: number) => void;
+  onExport: () => void;
+  isExporting: boolean;
+  disabled?: boolean;
+  label?: string;
+}
+
+/**
+ * Layout selector and download button for PDF export
+ */
+const PdfExportControls: React.FC<PdfExportControlsProps> = ({
+  slidesPerPage,
+  onSlidesPerPageChange,
+  onExport,
+  isExporting,
+  disabled,
+  label = 'PDFダウンロード'
+}) => (
+  <div className="flex items-center rounded-lg border border-gray-200 bg-white overflow-hidden">
+    <select
+      value={slidesPerPage}
+      onChange={(e) => onSlidesPerPageChange(Number(e.target.value))}
+      className="text-sm text-gray-700 px-2 py-2 border-r border-gray-200 outline-none bg-white"
+      title="PDFのレイアウト"
+    >
+      {HANDOUT_LAYOUTS.map(layout => (
+        <option key={layout.value} value={layout.value}>{layout.label}</option>
+      ))}
+    </select>
+    <button
+      onClick={onExport}
+      disabled={disabled || isExporting}
+      className="px-3 py-2 text-sm font-bold text-red-600 hover:bg-red-50 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {isExporting
+        ? <ArrowPathIcon className="w-5 h-5 animate-spin" />
+        : <DocumentArrowDownIcon className="w-5 h-5" />}
+      {label}
+    </button>
+  </div>
+);
+
+export default PdfExportControls;
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon, ArrowPathIcon, DocumentDuplicateIcon, TrashIcon, PhotoIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { AppMode } from '../types';
+import { deleteProject, duplicateProject, listProjects, ProjectSummary } from '../services/projectStorageService';
+
+interface ProjectLibraryDialogProps {
+  currentProjectId: string;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('ja-JP', { year: 'numeric', month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Saved projects with thumbnails; open, duplicate or delete them
+ */
+const ProjectLibraryDialog: React.FC<ProjectLibraryDialogProps> = ({ currentProjectId, onOpen, onNew, onDeleted, onClose }) => {
+  const [projects, setProjects] = useState<ProjectSummary[] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const refresh = () =>
+    listProjects()
+      .then(setProjects)
+      .catch(e => {
+        console.error('Failed to list projects', e);
+        setProjects([]);
+        setError('プロジェクトを読み込めませんでした。ブラウザの保存領域が使えない可能性があります。');
+      });
+
+  useEffect(() => { refresh(); }, []);
+
+  const handleDuplicate = async (id: string) => {
+    setBusyId(id);
+    try {
+      await duplicateProject(id);
+      await refresh();
+    } catch (e) {
+      console.error('Failed to duplicate project', e);
+      setError('プロジェクトの複製に失敗しました。');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!confirm(`「${project.name}」を削除しますか？画像と編集履歴もすべて削除されます。`)) return;
+    setBusyId(project.id);
+    try {
+      await deleteProject(project.id);
+      onDeleted(project.id);
+      await refresh();
+    } catch (e) {
+      console.error('Failed to delete project', e);
+      setError('プロジェクトの削除に失敗しました。');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">プロジェクト</h2>
+            <p className="text-xs text-gray-500">作業内容と画像はこのブラウザに自動保存されます。</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onNew}
+              className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg text-sm font-semibold flex items-center gap-1"
+            >
+              <PlusIcon className="w-4 h-4" /> 新規プロジェクト
+            </button>
+            <button onClick={onClose} className="p-2 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-50">
+              <XMarkIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {error && <div className="mb-4 p-3 rounded-lg text-sm bg-red-50 text-red-700">{error}</div>}
+          {projects === null ? (
+            <div className="flex items-center justify-center gap-2 text-purple-600 text-sm py-12">
+              <ArrowPathIcon className="w-5 h-5 animate-spin" /> 読み込み中...
+            </div>
+          ) : projects.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-12">保存されたプロジェクトはまだありません。</p>
+          ) : (
+            <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {projects.map(project => {
+                const isCurrent = project.id === currentProjectId;
+                const isBusy = busyId === project.id;
+                return (
+                  <li key={project.id} className={`rounded-xl border overflow-hidden flex flex-col ${isCurrent ? 'border-purple-400 ring-2 ring-purple-100' : 'border-gray-200'}`}>
+                    <button onClick={() => onOpen(project.id)} disabled={isCurrent} className="block bg-gray-100 aspect-video relative">
+                      {project.thumbnail ? (
+                        <img src={project.thumbnail} alt="" className="w-full h-full object-cover" />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center text-gray-300">
+                          <PhotoIcon className="w-10 h-10" />
+                        </div>
+                      )}
+                      {isCurrent && <span className="absolute top-2 left-2 bg-purple-600 text-white text-xs px-2 py-0.5 rounded">編集中</span>}
+                    </button>
+                    <div className="p-3 flex-1 flex flex-col gap-2">
+                      <div>
+                        <div className="text-sm font-bold text-gray-900 truncate">{project.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {project.mode === AppMode.PRESENTATION ? 'プレゼン資料' : '1枚絵'}・{project.slideCount}枚・{formatTime(project.updatedAt)}
+                        </div>
+                      </div>
+                      <div className="flex gap-2 mt-auto">
+                        <button
+                          onClick={() => onOpen(project.id)}
+                          disabled={isCurrent || isBusy}
+                          className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs font-medium py-2 rounded disabled:opacity-50"
+                        >
+                          開く
+                        </button>
+                        <button
+                          onClick={() => handleDuplicate(project.id)}
+                          disabled={isBusy}
+                          className="bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs font-medium px-3 py-2 rounded disabled:opacity-50"
+                          title="複製"
+                        >
+                          <DocumentDuplicateIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(project)}
+                          disabled={isBusy}
+                          className="bg-gray-100 hover:bg-red-50 hover:text-red-600 text-gray-700 text-xs font-medium px-3 py-2 rounded disabled:opacity-50"
+                          title="削除"
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLibraryDialog;
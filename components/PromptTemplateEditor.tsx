@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { XMarkIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import { PromptTemplateId, PromptTemplateOverrides } from '../types';
+import { DEFAULT_PROMPT_TEMPLATES, getTemplateVersion } from '../services/promptTemplates';
+
+interface PromptTemplateEditorProps {
+  overrides: PromptTemplateOverrides;
+  onChange: (overrides: PromptTemplateOverrides) => void;
+  onClose: () => void;
+}
+
+const TEMPLATE_IDS = Object.keys(DEFAULT_PROMPT_TEMPLATES) as PromptTemplateId[];
+
+/**
+ * Modal for overriding the default prompt templates of the current project
+ */
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ overrides, onChange, onClose }) => {
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>(TEMPLATE_IDS[0]);
+  const [draft, setDraft] = useState<string>(overrides[TEMPLATE_IDS[0]]?.body ?? DEFAULT_PROMPT_TEMPLATES[TEMPLATE_IDS[0]].body);
+
+  const template = DEFAULT_PROMPT_TEMPLATES[selectedId];
+  const currentBody = overrides[selectedId]?.body ?? template.body;
+
+  const selectTemplate = (id: PromptTemplateId) => {
+    setSelectedId(id);
+    setDraft(overrides[id]?.body ?? DEFAULT_PROMPT_TEMPLATES[id].body);
+  };
+
+  const handleSave = () => {
+    if (draft === template.body) {
+      handleReset();
+      return;
+    }
+    onChange({
+      ...overrides,
+      [selectedId]: { body: draft, revision: (overrides[selectedId]?.revision ?? 0) + 1 }
+    });
+  };
+
+  const handleReset = () => {
+    const { [selectedId]: _removed, ...rest } = overrides;
+    onChange(rest);
+    setDraft(template.body);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">プロンプトテンプレート</h2>
+            <p className="text-xs text-gray-500">このプロジェクトでのみ有効です。{'{{変数名}}'} の部分は生成時に置き換えられます。</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-50">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <ul className="w-60 border-r border-gray-100 overflow-y-auto py-2">
+            {TEMPLATE_IDS.map(id => (
+              <li key={id}>
+                <button
+                  onClick={() => selectTemplate(id)}
+                  className={`w-full text-left px-4 py-2 text-sm ${selectedId === id ? 'bg-purple-50 text-purple-700 font-semibold' : 'text-gray-700 hover:bg-gray-50'}`}
+                >
+                  <div>{DEFAULT_PROMPT_TEMPLATES[id].name}</div>
+                  <div className="text-xs text-gray-400 font-mono">{getTemplateVersion(id, overrides)}</div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex-1 p-6 flex flex-col gap-3 min-h-0">
+            <div className="flex flex-wrap gap-1">
+              {template.variables.length === 0 && <span className="text-xs text-gray-400">変数なし</span>}
+              {template.variables.map(variable => (
+                <span key={variable} className="text-xs font-mono bg-gray-100 text-gray-600 px-2 py-0.5 rounded">{`{{${variable}}}`}</span>
+              ))}
+            </div>
+            <textarea
+              className="flex-1 min-h-[300px] w-full p-3 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-purple-500 outline-none resize-none"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+            />
+            <div className="flex items-center justify-between">
+              <button
+                onClick={handleReset}
+                disabled={!overrides[selectedId]}
+                className="text-sm text-gray-500 hover:text-gray-800 flex items-center gap-1 disabled:opacity-40"
+              >
+                <ArrowUturnLeftIcon className="w-4 h-4" /> デフォルトに戻す
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={draft === currentBody}
+                className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:bg-gray-300"
+              >
+                保存
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { XMarkIcon, PhotoIcon } from '@heroicons/react/24/outline';
+import { GeneratedImage, OverlayPosition, SlideOverlaySettings } from '../types';
+import { applySlideOverlays, DEFAULT_OVERLAY_SETTINGS, OVERLAY_POSITIONS } from '../services/slideOverlayService';
+import { prepareLogo } from '../services/brandKitService';
+
+interface SlideOverlayEditorProps {
+  settings: SlideOverlaySettings;
+  brandLogo: string | null; // Used when no logo is uploaded here
+  previewImage: GeneratedImage | null;
+  previewPageNumber?: number;
+  onChange: (settings: SlideOverlaySettings) => void;
+  onClose: () => void;
+}
+
+const PositionSelect: React.FC<{ value: OverlayPosition; onChange: (value: OverlayPosition) => void; disabled: boolean }> = ({ value, onChange, disabled }) => (
+  <select
+    value={value}
+    disabled={disabled}
+    onChange={(e) => onChange(e.target.value as OverlayPosition)}
+    className="p-1.5 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50 disabled:text-gray-400"
+  >
+    {OVERLAY_POSITIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+  </select>
+);
+
+/**
+ * Modal for the logo / page number / footer / date overlays composited onto every slide
+ */
+const SlideOverlayEditor: React.FC<SlideOverlayEditorProps> = ({ settings, brandLogo, previewImage, previewPageNumber, onChange, onClose }) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const logo = settings.logo.image ?? brandLogo;
+
+  useEffect(() => {
+    if (!previewImage) return;
+    let cancelled = false;
+    applySlideOverlays(previewImage, settings, { pageNumber: previewPageNumber, logo, date: new Date() })
+      .then(url => { if (!cancelled) setPreviewUrl(url); })
+      .catch(error => console.error('Overlay preview failed', error));
+    return () => { cancelled = true; };
+  }, [previewImage, settings, previewPageNumber, logo]);
+
+  const update = <K extends keyof SlideOverlaySettings>(key: K, value: SlideOverlaySettings[K]) =>
+    onChange({ ...settings, [key]: value });
+
+  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = async () => {
+      try {
+        update('logo', { ...settings.logo, enabled: true, image: await prepareLogo(reader.result as string) });
+      } catch (error: any) {
+        alert(error?.message || 'ロゴ画像を読み込めませんでした');
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const rowClass = 'flex items-center gap-3 py-3 border-b border-gray-100';
+  const checkboxClass = 'w-4 h-4 text-purple-600 rounded border-gray-300 focus:ring-purple-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">ロゴ・ページ番号・フッター</h2>
+            <p className="text-xs text-gray-500">生成後の画像に重ねて表示し、ダウンロード・PDF・PPTX・Googleドライブ保存にも反映します。編集指示は元の画像に対して行われます。</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-50">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-1/2 p-6 overflow-y-auto">
+            <div className={rowClass}>
+              <input
+                type="checkbox"
+                checked={settings.logo.enabled}
+                onChange={(e) => update('logo', { ...settings.logo, enabled: e.target.checked })}
+                className={checkboxClass}
+              />
+              <span className="text-sm font-medium text-gray-700 w-24">ロゴ</span>
+              <div className="w-16 h-10 rounded border border-gray-200 bg-gray-50 flex items-center justify-center overflow-hidden">
+                {logo ? <img src={logo} alt="ロゴ" className="max-w-full max-h-full object-contain" /> : <PhotoIcon className="w-5 h-5 text-gray-300" />}
+              </div>
+              <div className="flex-1 text-xs">
+                <input type="file" ref={logoInputRef} className="hidden" accept="image/*" onChange={handleLogoUpload} />
+                <button onClick={() => logoInputRef.current?.click()} className="text-purple-600 hover:text-purple-800 font-medium">画像を選択</button>
+                {settings.logo.image ? (
+                  <button onClick={() => update('logo', { ...settings.logo, image: null })} className="ml-2 text-gray-500 hover:text-red-600">
+                    {brandLogo ? 'ブランドキットのロゴに戻す' : '削除'}
+                  </button>
+                ) : (
+                  <span className="block text-gray-400">{brandLogo ? 'ブランドキットのロゴを使用中' : 'ロゴが未設定です'}</span>
+                )}
+              </div>
+              <PositionSelect value={settings.logo.position} onChange={(position) => update('logo', { ...settings.logo, position })} disabled={!settings.logo.enabled} />
+            </div>
+            <div className="flex items-center gap-3 py-2 pl-7 border-b border-gray-100 text-xs text-gray-600">
+              <span className="w-24">ロゴの高さ</span>
+              <input
+                type="range"
+                min={3}
+                max={20}
+                value={settings.logo.heightPercent}
+                disabled={!settings.logo.enabled}
+                onChange={(e) => update('logo', { ...settings.logo, heightPercent: Number(e.target.value) })}
+                className="flex-1 accent-purple-600"
+              />
+              <span className="w-10 text-right">{settings.logo.heightPercent}%</span>
+            </div>
+
+            <div className={rowClass}>
+              <input
+                type="checkbox"
+                checked={settings.pageNumber.enabled}
+                onChange={(e) => update('pageNumber', { ...settings.pageNumber, enabled: e.target.checked })}
+                className={checkboxClass}
+              />
+              <span className="text-sm font-medium text-gray-700 w-24">ページ番号</span>
+              <span className="flex-1 text-xs text-gray-400">プレゼン資料の構成のページ番号</span>
+              <PositionSelect value={settings.pageNumber.position} onChange={(position) => update('pageNumber', { ...settings.pageNumber, position })} disabled={!settings.pageNumber.enabled} />
+            </div>
+
+            <div className={rowClass}>
+              <input
+                type="checkbox"
+                checked={settings.footer.enabled}
+                onChange={(e) => update('footer', { ...settings.footer, enabled: e.target.checked })}
+                className={checkboxClass}
+              />
+              <span className="text-sm font-medium text-gray-700 w-24">フッター</span>
+              <input
+                type="text"
+                value={settings.footer.text}
+                disabled={!settings.footer.enabled}
+                onChange={(e) => update('footer', { ...settings.footer, text: e.target.value })}
+                className="flex-1 p-1.5 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                placeholder="例: 社外秘"
+              />
+              <PositionSelect value={settings.footer.position} onChange={(position) => update('footer', { ...settings.footer, position })} disabled={!settings.footer.enabled} />
+            </div>
+
+            <div className={rowClass}>
+              <input
+                type="checkbox"
+                checked={settings.date.enabled}
+                onChange={(e) => update('date', { ...settings.date, enabled: e.target.checked })}
+                className={checkboxClass}
+              />
+              <span className="text-sm font-medium text-gray-700 w-24">日付</span>
+              <span className="flex-1 text-xs text-gray-400">表示・書き出しした日の日付</span>
+              <PositionSelect value={settings.date.position} onChange={(position) => update('date', { ...settings.date, position })} disabled={!settings.date.enabled} />
+            </div>
+
+            <div className="flex items-center gap-3 py-3 text-sm text-gray-700">
+              <span className="font-medium w-24 pl-7">文字色</span>
+              <input
+                type="color"
+                value={settings.textColor}
+                onChange={(e) => update('textColor', e.target.value.toUpperCase())}
+                className="w-9 h-9 rounded border border-gray-300 cursor-pointer"
+              />
+              <label className="flex items-center gap-2 cursor-pointer text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={settings.textBackground}
+                  onChange={(e) => update('textBackground', e.target.checked)}
+                  className={checkboxClass}
+                />
+                文字の背景を白く敷く
+              </label>
+              <button onClick={() => onChange(DEFAULT_OVERLAY_SETTINGS)} className="ml-auto text-xs text-gray-500 hover:text-gray-800">
+                初期設定に戻す
+              </button>
+            </div>
+          </div>
+
+          <div className="w-1/2 p-6 bg-gray-50 border-l border-gray-100 flex items-center justify-center">
+            {previewImage && previewUrl
+              ? <img src={previewUrl} alt="プレビュー" className="max-w-full max-h-[60vh] rounded-lg shadow" />
+              : <p className="text-sm text-gray-400">画像を生成するとプレビューが表示されます</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SlideOverlayEditor;
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { SlideTextLayer, TextLayerLayout } from '../types';
+import { TEXT_LAYER_FONTS, TEXT_LAYER_LAYOUTS } from '../services/textLayerService';
+
+interface TextLayerEditorProps {
+  layer: SlideTextLayer;
+  renderPreview: (layer: SlideTextLayer) => Promise<string>;
+  onSave: (layer: SlideTextLayer) => void;
+  onClose: () => void;
+}
+
+/**
+ * Modal for editing the text drawn over a text-free slide, with a flattened preview
+ */
+const TextLayerEditor: React.FC<TextLayerEditorProps> = ({ layer, renderPreview, onSave, onClose }) => {
+  const [draft, setDraft] = useState<SlideTextLayer>(layer);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState<boolean>(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsRendering(true);
+    // Debounced so typing does not re-render the canvas on every keystroke
+    const timer = setTimeout(() => {
+      renderPreview(draft)
+        .then(url => { if (!cancelled) setPreviewUrl(url); })
+        .catch(error => console.error('Text layer preview failed', error))
+        .finally(() => { if (!cancelled) setIsRendering(false); });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [draft]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(layer);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">スライドの文字を編集</h2>
+            <p className="text-xs text-gray-500">文字はアプリで描画され、ダウンロードや書き出し時に画像へ合成されます。</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-50">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-2/5 p-6 overflow-y-auto space-y-4">
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">レイアウト</span>
+              <select
+                value={draft.layout}
+                onChange={(e) => {
+                  const layout = e.target.value as TextLayerLayout;
+                  setDraft({ ...draft, layout, plate: TEXT_LAYER_LAYOUTS[layout].plate });
+                }}
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {(Object.keys(TEXT_LAYER_LAYOUTS) as TextLayerLayout[]).map(key => (
+                  <option key={key} value={key}>{TEXT_LAYER_LAYOUTS[key].label}</option>
+                ))}
+              </select>
+              <span className="block text-xs text-gray-400 mt-1">画像は生成時のレイアウトで余白が空けられています。</span>
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">タイトル</span>
+              <input
+                type="text"
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">本文</span>
+              <textarea
+                value={draft.content}
+                onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+                className="w-full h-40 p-2 border border-gray-300 rounded-lg text-sm resize-none"
+              />
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">フォント</span>
+              <select
+                value={draft.fontFamily}
+                onChange={(e) => setDraft({ ...draft, fontFamily: e.target.value })}
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {TEXT_LAYER_FONTS.map(font => <option key={font.value} value={font.value}>{font.label}</option>)}
+              </select>
+            </label>
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                文字色
+                <input
+                  type="color"
+                  value={draft.textColor}
+                  onChange={(e) => setDraft({ ...draft, textColor: e.target.value.toUpperCase() })}
+                  className="w-9 h-9 rounded border border-gray-300 cursor-pointer"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={draft.plate}
+                  onChange={(e) => setDraft({ ...draft, plate: e.target.checked })}
+                  className="w-4 h-4 text-purple-600 rounded border-gray-300 focus:ring-purple-500"
+                />
+                文字の背景を白く敷く
+              </label>
+            </div>
+            <div className="flex justify-end gap-2 pt-2">
+              <button onClick={onClose} className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium">
+                キャンセル
+              </button>
+              <button
+                onClick={() => onSave(draft)}
+                disabled={!isDirty}
+                className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:bg-gray-300"
+              >
+                保存
+              </button>
+            </div>
+          </div>
+
+          <div className="w-3/5 p-6 bg-gray-50 border-l border-gray-100 flex items-center justify-center relative">
+            {previewUrl && <img src={previewUrl} alt="プレビュー" className="max-w-full max-h-[65vh] rounded-lg shadow" />}
+            {isRendering && (
+              <div className="absolute top-4 right-4 text-xs text-purple-600 flex items-center gap-1">
+                <ArrowPathIcon className="w-4 h-4 animate-spin" /> 描画中...
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TextLayerEditor;
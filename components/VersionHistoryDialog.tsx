@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import { GeneratedImage } from '../types';
+import { getVersionTree } from '../services/versionHistoryService';
+import BeforeAfterSlider from './BeforeAfterSlider';
+
+interface VersionHistoryDialogProps {
+  current: GeneratedImage;
+  versions: GeneratedImage[];
+  title: string;
+  renderImage: (image: GeneratedImage) => Promise<string>; // Flattened as the slide is displayed
+  onRevert: (versionId: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp?: number) =>
+  timestamp ? new Date(timestamp).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' }) : '';
+
+/**
+ * Version tree of one slide with a before/after comparison and revert
+ */
+const VersionHistoryDialog: React.FC<VersionHistoryDialogProps> = ({ current, versions, title, renderImage, onRevert, onClose }) => {
+  const tree = getVersionTree(current, versions);
+  const [selectedId, setSelectedId] = useState<string>(current.id);
+  const [compareUrls, setCompareUrls] = useState<{ before: string; after: string } | null>(null);
+
+  const selected = tree.find(node => node.image.id === selectedId)?.image ?? current;
+  const parent = tree.find(node => node.image.id === selected.parentId)?.image;
+  // Compare the chosen version with the current one; for the current version, with its parent
+  const before = selected.id === current.id ? parent : selected;
+  const after = current;
+
+  useEffect(() => {
+    if (!before) {
+      setCompareUrls(null);
+      return;
+    }
+    let cancelled = false;
+    Promise.all([renderImage(before), renderImage(after)])
+      .then(([beforeUrl, afterUrl]) => { if (!cancelled) setCompareUrls({ before: beforeUrl, after: afterUrl }); })
+      .catch(error => console.error('Version preview failed', error));
+    return () => { cancelled = true; };
+  }, [before?.id, after.id]);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">編集履歴</h2>
+            <p className="text-xs text-gray-500">{title}・{tree.length}バージョン</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-50">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <ul className="w-80 border-r border-gray-100 overflow-y-auto py-2">
+            {tree.map(({ image, depth, isCurrent }) => (
+              <li key={image.id}>
+                <button
+                  onClick={() => setSelectedId(image.id)}
+                  className={`w-full text-left py-2 pr-3 flex gap-2 ${selectedId === image.id ? 'bg-purple-50' : 'hover:bg-gray-50'}`}
+                  style={{ paddingLeft: `${12 + depth * 16}px` }}
+                >
+                  <img src={image.url} alt="" className="w-16 h-10 object-cover rounded border border-gray-200 shrink-0" />
+                  <div className="min-w-0">
+                    <div className="text-xs font-medium text-gray-800 truncate">
+                      {image.parentId ? (image.editInstruction || '編集') : 'オリジナル'}
+                    </div>
+                    <div className="text-[11px] text-gray-400 flex items-center gap-1">
+                      {formatTime(image.createdAt)}
+                      {isCurrent && <span className="bg-purple-600 text-white px-1 rounded">表示中</span>}
+                    </div>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex-1 p-6 flex flex-col gap-4 min-h-0 overflow-y-auto">
+            {before && compareUrls ? (
+              <BeforeAfterSlider
+                beforeUrl={compareUrls.before}
+                afterUrl={compareUrls.after}
+                beforeLabel={selected.id === current.id ? '編集前' : '選択したバージョン'}
+                afterLabel="表示中"
+              />
+            ) : (
+              <img src={selected.url} alt="" className="w-full rounded-lg border border-gray-200" />
+            )}
+            <div className="text-sm text-gray-700 space-y-1">
+              <div><span className="text-gray-400">指示: </span>{selected.editInstruction || (selected.parentId ? '-' : '最初の生成')}</div>
+              <div><span className="text-gray-400">作成: </span>{formatTime(selected.createdAt) || '-'}</div>
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={() => onRevert(selected.id)}
+                disabled={selected.id === current.id}
+                className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg text-sm font-semibold flex items-center gap-1 disabled:bg-gray-300"
+              >
+                <ArrowUturnLeftIcon className="w-4 h-4" /> このバージョンに戻す
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistoryDialog;
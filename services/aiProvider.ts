@@ -0,0 +1,67 @@
+import type { Schema } from "@google/genai";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+
+/**
+ * Provider abstraction for text and image generation.
+ * Prompts are built in geminiService.ts; providers only handle transport.
+ */
+
+export type AiProviderId = 'gemini' | 'mock';
+
+export type TextTask = 'outline' | 'outlineRepair' | 'pageRewrite' | 'suggestions';
+
+export type ImageTask = 'generate' | 'edit';
+
+export interface InlineImage {
+  mimeType: string;
+  data: string; // Base64 without data URL prefix
+}
+
+export interface TextRequest {
+  task: TextTask;
+  prompt: string;
+  responseSchema?: Schema;
+  // Structured inputs behind the prompt (offline providers use these instead of parsing it)
+  context?: Record<string, unknown>;
+}
+
+export interface ImageRequest {
+  task: ImageTask;
+  prompt: string;
+  images?: InlineImage[];
+  aspectRatio?: string;
+  imageSize?: string;
+}
+
+export interface AiProvider {
+  id: AiProviderId;
+  // Returns the raw response text (JSON when a schema is given)
+  generateText(request: TextRequest): Promise<string>;
+  // Returns a Base64 data URL, or null if the model returned no image
+  generateImage(request: ImageRequest): Promise<string | null>;
+}
+
+/**
+ * Convert a Base64 data URL into inline image data
+ */
+export const toInlineImage = (dataUrl: string): InlineImage | null => {
+  const match = dataUrl.match(/^data:(.+);base64,(.+)$/);
+  if (!match) return null;
+  return { mimeType: match[1], data: match[2] };
+};
+
+/**
+ * Provider selected by VITE_AI_PROVIDER ('gemini' by default, 'mock' for offline use)
+ */
+export const getActiveProviderId = (): AiProviderId => {
+  const configured = (import.meta.env.VITE_AI_PROVIDER || '').toLowerCase();
+  return configured === 'mock' ? 'mock' : 'gemini';
+};
+
+const PROVIDERS: Record<AiProviderId, AiProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider
+};
+
+export const getAiProvider = (): AiProvider => PROVIDERS[getActiveProviderId()];
@@ -0,0 +1,123 @@
+import { createCanvas, loadImage } from "./canvasUtils";
+import { encodeGif } from "./gifEncoder";
+
+/**
+ * Turns ordered animation steps into an animated GIF or a WebM video (canvas + MediaRecorder)
+ */
+
+export type AnimationFormat = 'gif' | 'webm';
+
+export interface AnimationExportOptions {
+  frameDurationMs: number; // how long each step is shown
+  crossfadeMs: number; // 0 = hard cut between steps
+  plays: number; // 0 = loop forever
+}
+
+export const ANIMATION_FORMATS: Record<AnimationFormat, { label: string; extension: string }> = {
+  gif: { label: 'GIF', extension: 'gif' },
+  webm: { label: 'WebM', extension: 'webm' }
+};
+
+const GIF_MAX_WIDTH = 640;
+const WEBM_MAX_WIDTH = 1280;
+const CROSSFADE_FRAME_MS = 80;
+const WEBM_FPS = 30;
+
+interface TimelineFrame {
+  from: number; // image index
+  to: number | null; // blend target for crossfade frames
+  mix: number; // 0..1 opacity of "to"
+  delayMs: number;
+}
+
+// Step holds plus crossfade frames; the wrap-around fade is only added when the animation loops
+const buildTimeline = (stepCount: number, options: AnimationExportOptions): TimelineFrame[] => {
+  const timeline: TimelineFrame[] = [];
+  const fadeFrames = options.crossfadeMs > 0 ? Math.max(1, Math.round(options.crossfadeMs / CROSSFADE_FRAME_MS)) : 0;
+  const loops = options.plays !== 1;
+
+  for (let index = 0; index < stepCount; index++) {
+    timeline.push({ from: index, to: null, mix: 0, delayMs: options.frameDurationMs });
+    const next = index + 1 < stepCount ? index + 1 : (loops && stepCount > 1 ? 0 : null);
+    if (next === null) continue;
+    for (let f = 1; f <= fadeFrames; f++) {
+      timeline.push({ from: index, to: next, mix: f / (fadeFrames + 1), delayMs: options.crossfadeMs / fadeFrames });
+    }
+  }
+  return timeline;
+};
+
+const prepareFrames = async (imageUrls: string[], maxWidth: number) => {
+  const images = await Promise.all(imageUrls.map(loadImage));
+  const scale = Math.min(1, maxWidth / images[0].naturalWidth);
+  const width = Math.round(images[0].naturalWidth * scale);
+  const height = Math.round(images[0].naturalHeight * scale);
+  const { canvas, ctx } = createCanvas(width, height);
+
+  const draw = (frame: TimelineFrame) => {
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(images[frame.from], 0, 0, width, height);
+    if (frame.to !== null) {
+      ctx.globalAlpha = frame.mix;
+      ctx.drawImage(images[frame.to], 0, 0, width, height);
+      ctx.globalAlpha = 1;
+    }
+  };
+
+  return { canvas, ctx, width, height, draw };
+};
+
+export const createAnimatedGif = async (imageUrls: string[], options: AnimationExportOptions): Promise<Blob> => {
+  const { ctx, width, height, draw } = await prepareFrames(imageUrls, GIF_MAX_WIDTH);
+  const frames = buildTimeline(imageUrls.length, options).map(frame => {
+    draw(frame);
+    return { data: ctx.getImageData(0, 0, width, height).data, delayMs: frame.delayMs };
+  });
+
+  // NETSCAPE loop count is the number of extra repeats; omit it to play once
+  const loopCount = options.plays === 0 ? 0 : options.plays > 1 ? options.plays - 1 : null;
+  return new Blob([encodeGif(frames, { width, height, loopCount })], { type: 'image/gif' });
+};
+
+export const isWebmSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported('video/webm');
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Records the animation in real time, so this takes as long as the animation plays.
+ * WebM has no loop flag: "forever" records one pass (players loop it), N plays records N passes.
+ */
+export const createWebm = async (imageUrls: string[], options: AnimationExportOptions): Promise<Blob> => {
+  if (!isWebmSupported()) {
+    throw new Error('このブラウザはWebMの書き出しに対応していません');
+  }
+  const { canvas, draw } = await prepareFrames(imageUrls, WEBM_MAX_WIDTH);
+  const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9') ? 'video/webm;codecs=vp9' : 'video/webm';
+  const recorder = new MediaRecorder(canvas.captureStream(WEBM_FPS), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  const timeline = buildTimeline(imageUrls.length, options);
+  const passes = Math.max(1, options.plays);
+
+  draw(timeline[0]);
+  recorder.start();
+  for (let pass = 0; pass < passes; pass++) {
+    for (const frame of timeline) {
+      draw(frame);
+      await delay(frame.delayMs);
+    }
+  }
+  recorder.stop();
+  await stopped;
+
+  return new Blob(chunks, { type: 'video/webm' });
+};
@@ -0,0 +1,85 @@
+import { BrandColor, BrandKit, Complexity } from "../types";
+import { createCanvas, loadImage } from "./canvasUtils";
+
+/**
+ * Brand kits live in localStorage so they are reusable across sessions and projects
+ */
+
+const STORAGE_KEY = 'infographai.brandKits';
+const LOGO_MAX_SIZE = 512; // px, keeps kits well inside the storage quota
+
+export const isValidHexColor = (hex: string): boolean => /^#[0-9a-f]{6}$/i.test(hex);
+
+export const createBrandKit = (name: string = '新しいブランドキット'): BrandKit => ({
+  id: `brand-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  colors: [
+    { name: 'メインカラー', hex: '#4F46E5' },
+    { name: 'アクセントカラー', hex: '#F59E0B' }
+  ],
+  fonts: '',
+  logo: null,
+  dos: [],
+  donts: [],
+  defaultComplexity: Complexity.STANDARD
+});
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+// Stored data may come from an older version or be edited by hand; keep what is usable
+const normalizeBrandKit = (raw: any): BrandKit | null => {
+  if (!raw || typeof raw !== 'object' || typeof raw.id !== 'string') return null;
+  const colors: BrandColor[] = Array.isArray(raw.colors)
+    ? raw.colors
+      .filter((color: any) => color && typeof color.hex === 'string' && isValidHexColor(color.hex))
+      .map((color: any) => ({ name: typeof color.name === 'string' ? color.name : '', hex: color.hex.toUpperCase() }))
+    : [];
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name : '名称未設定',
+    colors,
+    fonts: typeof raw.fonts === 'string' ? raw.fonts : '',
+    logo: typeof raw.logo === 'string' && raw.logo.startsWith('data:image/') ? raw.logo : null,
+    dos: toStringList(raw.dos),
+    donts: toStringList(raw.donts),
+    defaultComplexity: Object.values(Complexity).includes(raw.defaultComplexity) ? raw.defaultComplexity : Complexity.STANDARD
+  };
+};
+
+export const loadBrandKits = (): BrandKit[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed)
+      ? parsed.map(normalizeBrandKit).filter((kit): kit is BrandKit => kit !== null)
+      : [];
+  } catch (e) {
+    console.error('Failed to load brand kits', e);
+    return [];
+  }
+};
+
+export const saveBrandKits = (kits: BrandKit[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(kits));
+  } catch (e) {
+    console.error('Failed to save brand kits', e);
+    throw new Error('ブランドキットを保存できませんでした。ブラウザの保存容量を超えている可能性があります。');
+  }
+};
+
+/**
+ * Downscale an uploaded logo to a PNG data URL (transparency is kept)
+ */
+export const prepareLogo = async (dataUrl: string): Promise<string> => {
+  const image = await loadImage(dataUrl);
+  const scale = Math.min(1, LOGO_MAX_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const { canvas, ctx } = createCanvas(
+    Math.max(1, Math.round(image.naturalWidth * scale)),
+    Math.max(1, Math.round(image.naturalHeight * scale))
+  );
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
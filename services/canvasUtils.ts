@@ -0,0 +1,38 @@
+/**
+ * Canvas helpers shared by the mock provider and the client-side exporters
+ */
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('画像の読み込みに失敗しました'));
+    img.src = src;
+  });
+
+export const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2Dコンテキストを取得できませんでした');
+  return { canvas, ctx };
+};
+
+// Wrap text into lines that fit the given width
+export const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const char of paragraph.trim()) {
+      if (ctx.measureText(line + char).width > maxWidth && line) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+    if (line) lines.push(line);
+    if (lines.length >= maxLines) break;
+  }
+  return lines.slice(0, maxLines);
+};
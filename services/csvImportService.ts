@@ -0,0 +1,215 @@
+import { PresentationPage } from "../types";
+import { OutlineField, createPageId, matchOutlineField, renumberPages } from "./outlineService";
+
+/**
+ * CSV import for presentation outlines: encoding detection, parsing and column mapping
+ */
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'shift_jis';
+
+export type CsvColumnTarget = OutlineField | 'ignore';
+
+export interface DecodedCsv {
+  text: string;
+  encoding: CsvEncoding;
+  hadBom: boolean;
+}
+
+export interface CsvRowIssue {
+  row: number; // 1-based line in the file (including the header row)
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface CsvImportResult {
+  pages: PresentationPage[];
+  issues: CsvRowIssue[];
+}
+
+export const CSV_COLUMN_TARGETS: Array<{ value: CsvColumnTarget; label: string }> = [
+  { value: 'ignore', label: '（使用しない）' },
+  { value: 'pageNumber', label: 'ページ番号' },
+  { value: 'title', label: 'タイトル' },
+  { value: 'content', label: '内容' },
+  { value: 'visualCue', label: '視覚表現' },
+  { value: 'emphasis', label: '強調ポイント' },
+  { value: 'mood', label: '温度感' },
+  { value: 'speakerNotes', label: 'スピーカーノート' }
+];
+
+/**
+ * Decode a CSV file, honoring a BOM and falling back to Shift_JIS when the bytes aren't valid UTF-8
+ */
+export const decodeCsv = (buffer: ArrayBuffer, forced?: CsvEncoding): DecodedCsv => {
+  const bytes = new Uint8Array(buffer);
+
+  let detected: CsvEncoding | null = null;
+  let bomLength = 0;
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    detected = 'utf-8';
+    bomLength = 3;
+  } else if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    detected = 'utf-16le';
+    bomLength = 2;
+  } else if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    detected = 'utf-16be';
+    bomLength = 2;
+  }
+
+  if (forced) {
+    const skip = detected === forced ? bomLength : 0;
+    return { text: new TextDecoder(forced).decode(bytes.subarray(skip)), encoding: forced, hadBom: skip > 0 };
+  }
+  if (detected) {
+    return { text: new TextDecoder(detected).decode(bytes.subarray(bomLength)), encoding: detected, hadBom: true };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8', hadBom: false };
+  } catch {
+    // Excel on Japanese Windows saves CSV as Shift_JIS without a BOM
+    return { text: new TextDecoder('shift_jis').decode(bytes), encoding: 'shift_jis', hadBom: false };
+  }
+};
+
+// Robust CSV Parser handling quotes and newlines within quotes
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let currentRow: string[] = [];
+  let currentVal = '';
+  let inQuote = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const nextChar = text[i+1];
+
+    if (char === '"') {
+      if (inQuote && nextChar === '"') {
+        currentVal += '"';
+        i++; // skip next quote
+      } else {
+        inQuote = !inQuote;
+      }
+    } else if (char === ',' && !inQuote) {
+      currentRow.push(currentVal);
+      currentVal = '';
+    } else if ((char === '\r' || char === '\n') && !inQuote) {
+      if (char === '\r' && nextChar === '\n') i++;
+      currentRow.push(currentVal);
+      rows.push(currentRow);
+      currentRow = [];
+      currentVal = '';
+    } else {
+      currentVal += char;
+    }
+  }
+  if (currentVal || currentRow.length > 0) {
+    currentRow.push(currentVal);
+    rows.push(currentRow);
+  }
+  return rows;
+};
+
+/**
+ * Whether the first row looks like a header (any cell matches a known column name)
+ */
+export const detectHeaderRow = (rows: string[][]): boolean =>
+  rows.length > 0 && rows[0].some(cell => matchOutlineField(cell) !== null);
+
+/**
+ * Guess the column mapping from header names, or by position when there is no header
+ */
+export const guessColumnMapping = (rows: string[][], hasHeader: boolean): CsvColumnTarget[] => {
+  const columnCount = Math.max(0, ...rows.map(row => row.length));
+
+  if (hasHeader) {
+    const used = new Set<CsvColumnTarget>();
+    return Array.from({ length: columnCount }).map((_, col) => {
+      const target = matchOutlineField(rows[0][col] || '');
+      if (!target || used.has(target)) return 'ignore';
+      used.add(target);
+      return target;
+    });
+  }
+
+  // Positional fallback: "番号,タイトル,本文,視覚表現,強調,温度感,ノート" / "タイトル,本文" / "本文"
+  const positional: CsvColumnTarget[] = columnCount >= 3
+    ? ['pageNumber', 'title', 'content', 'visualCue', 'emphasis', 'mood', 'speakerNotes']
+    : columnCount === 2 ? ['title', 'content'] : ['content'];
+  return Array.from({ length: columnCount }).map((_, col) => positional[col] || 'ignore');
+};
+
+/**
+ * Build outline pages from parsed rows with the given mapping.
+ * Rows without a title or content are skipped and reported; pages follow the file's
+ * page numbers when they are valid and unique, otherwise row order.
+ */
+export const buildOutlineFromCsv = (
+  rows: string[][],
+  mapping: CsvColumnTarget[],
+  hasHeader: boolean
+): CsvImportResult => {
+  const issues: CsvRowIssue[] = [];
+  const entries: Array<{ page: PresentationPage; requestedNumber: number | null }> = [];
+
+  if (!mapping.includes('title') && !mapping.includes('content')) {
+    return { pages: [], issues: [{ row: 0, severity: 'error', message: 'タイトルまたは内容の列を指定してください' }] };
+  }
+
+  rows.forEach((cols, index) => {
+    if (hasHeader && index === 0) return;
+    const row = index + 1;
+    if (cols.every(cell => !cell.trim())) return; // blank line
+
+    if (cols.length !== mapping.length) {
+      issues.push({ row, severity: 'warning', message: `列数が${cols.length}列です（想定: ${mapping.length}列）` });
+    }
+
+    const page: PresentationPage = {
+      id: createPageId(),
+      pageNumber: 0,
+      title: '',
+      content: '',
+      visualCue: '',
+      emphasis: '',
+      mood: '',
+      speakerNotes: ''
+    };
+    let requestedNumber: number | null = null;
+
+    mapping.forEach((target, col) => {
+      const value = (cols[col] || '').trim();
+      if (target === 'ignore' || !value) return;
+      if (target === 'pageNumber') {
+        const parsed = Number(value.replace(/[^\d.-]/g, ''));
+        if (Number.isInteger(parsed) && parsed > 0) {
+          requestedNumber = parsed;
+        } else {
+          issues.push({ row, severity: 'warning', message: `ページ番号「${value}」が数値ではないため行順で採番します` });
+        }
+        return;
+      }
+      page[target] = value;
+    });
+
+    if (!page.title && !page.content) {
+      issues.push({ row, severity: 'error', message: 'タイトルと内容が空のため読み込みませんでした' });
+      return;
+    }
+    entries.push({ page, requestedNumber });
+  });
+
+  const numbers = entries.map(entry => entry.requestedNumber).filter((n): n is number => n !== null);
+  const hasDuplicates = new Set(numbers).size !== numbers.length;
+  if (hasDuplicates) {
+    issues.push({ row: 0, severity: 'warning', message: 'ページ番号が重複しているため行順で採番しました' });
+  }
+  const ordered = hasDuplicates || numbers.length !== entries.length
+    ? entries
+    : [...entries].sort((a, b) => (a.requestedNumber as number) - (b.requestedNumber as number));
+
+  return {
+    pages: renumberPages(ordered.map(entry => entry.page)),
+    issues: issues.sort((a, b) => a.row - b.row)
+  };
+};
@@ -0,0 +1,25 @@
+/**
+ * Helpers for saving generated files from the browser
+ */
+
+/**
+ * Replace characters that are not allowed in file names (keeps Japanese text intact)
+ */
+export const toSafeFileName = (name: string, fallback = 'presentation'): string =>
+  name.replace(/[\\/:*?"<>|\r\n\t]/g, '_').trim().substring(0, 60) || fallback;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadTextFile = (text: string, fileName: string, mimeType = 'text/plain') => {
+  downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), fileName);
+};
@@ -0,0 +1,68 @@
+import { GoogleGenAI } from "@google/genai";
+import type { AiProvider, ImageRequest, TextRequest } from "./aiProvider";
+
+const TEXT_MODEL = "gemini-2.5-flash";
+const IMAGE_MODEL = "gemini-3-pro-image-preview";
+const EDIT_MODEL = "gemini-2.5-flash-image";
+
+// Helper to get client instance with current key
+const getAiClient = () => {
+  // Vercel環境変数から読み取る（VITE_プレフィックスが必要）
+  const apiKey = import.meta.env.VITE_GEMINI_API_KEY || (window as any).aistudio?.getApiKey?.();
+  if (!apiKey) {
+    throw new Error("APIキーが見つかりません。環境変数VITE_GEMINI_API_KEYを設定するか、キーを選択してください。");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+/**
+ * Gemini backend (text: Gemini 2.5 Flash, images: Gemini 3 Pro Image Preview, edits: Gemini 2.5 Flash Image)
+ */
+export const geminiProvider: AiProvider = {
+  id: 'gemini',
+
+  async generateText(request: TextRequest): Promise<string> {
+    const ai = getAiClient();
+    const response = await ai.models.generateContent({
+      model: TEXT_MODEL,
+      contents: request.prompt,
+      config: request.responseSchema
+        ? { responseMimeType: "application/json", responseSchema: request.responseSchema }
+        : undefined
+    });
+    return response.text || '';
+  },
+
+  async generateImage(request: ImageRequest): Promise<string | null> {
+    const ai = getAiClient();
+
+    const imageParts = (request.images || []).map(image => ({ inlineData: image }));
+    const textPart = { text: request.prompt };
+    // Edits send the source image first, generation sends the prompt first
+    const parts = request.task === 'edit' ? [...imageParts, textPart] : [textPart, ...imageParts];
+
+    // The Flash edit model only outputs 1K, so high-resolution edits go through the Pro image model
+    const useEditModel = request.task === 'edit' && (!request.imageSize || request.imageSize === '1K');
+
+    const response = await ai.models.generateContent({
+      model: useEditModel ? EDIT_MODEL : IMAGE_MODEL,
+      contents: { parts },
+      config: request.aspectRatio || request.imageSize
+        ? {
+            imageConfig: {
+              aspectRatio: request.aspectRatio,
+              imageSize: useEditModel ? undefined : request.imageSize
+            }
+          }
+        : undefined
+    });
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) {
+        const mimeType = part.inlineData.mimeType || 'image/png';
+        return `data:${mimeType};base64,${part.inlineData.data}`;
+      }
+    }
+    return null;
+  }
+};
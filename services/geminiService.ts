@@ -1,98 +1,225 @@
-import { GoogleGenAI, Type, SchemaType } from "@google/genai";
-import { Complexity, GeneratedImage, PresentationPage } from "../types";
-
-// Helper to get client instance with current key
-const getAiClient = () => {
-  // Vercel環境変数から読み取る（VITE_プレフィックスが必要）
-  const apiKey = import.meta.env.VITE_GEMINI_API_KEY || (window as any).aistudio?.getApiKey?.();
-  if (!apiKey) {
-    throw new Error("APIキーが見つかりません。環境変数VITE_GEMINI_API_KEYを設定するか、キーを選択してください。");
+import { Type } from "@google/genai";
+import { BrandKit, Complexity, GeneratedImage, ImageOutputOptions, OutputLanguage, PresentationPage, PromptTemplateId, TextLayerLayout } from "../types";
+import { getAiProvider, toInlineImage, InlineImage } from "./aiProvider";
+import { createRequestScheduler, schedulerOptionsFromEnv } from "./requestScheduler";
+import { OUTLINE_FIELD_DEFAULTS, OutlineValidationError, OutlineValidationResult, parseJsonResponse, validateOutline } from "./outlineService";
+import { renderPrompt, RenderedPrompt } from "./promptTemplates";
+import { createTextLayer, TEXT_LAYER_LAYOUTS } from "./textLayerService";
+import { compositeMaskedEdit, maskToModelImage } from "./maskService";
+
+// Shared across all model calls so parallel generations respect rate limits (tunable via VITE_REQUEST_* variables)
+const scheduler = createRequestScheduler(schedulerOptionsFromEnv(import.meta.env));
+
+// Brand kit applied to every prompt; set by the app whenever the selection changes
+let activeBrandKit: BrandKit | null = null;
+
+export const setActiveBrandKit = (kit: BrandKit | null) => {
+  activeBrandKit = kit;
+};
+
+const formatBrandList = (items: string[]): string =>
+  items.length > 0 ? items.map(item => `- ${item}`).join('\n') : '- (指定なし)';
+
+// Guidelines of the active brand kit; hasLogo when the logo image is attached to the request
+const brandGuidelines = (hasLogo: boolean): RenderedPrompt | null => {
+  if (!activeBrandKit) return null;
+  const kit = activeBrandKit;
+  return renderPrompt('brandKit', {
+    brandName: kit.name,
+    colors: formatBrandList(kit.colors.map(color => `${color.name || '色'}: ${color.hex}`)),
+    fonts: kit.fonts.trim() || '(指定なし)',
+    dos: formatBrandList(kit.dos),
+    donts: formatBrandList(kit.donts),
+    logoInstruction: hasLogo ? 'ロゴ画像が添付されています。ブランドの雰囲気の参考にし、ロゴの形や文字を崩したり改変したりしないでください。' : ''
+  });
+};
+
+const appendBrandGuidelines = (prompt: RenderedPrompt): RenderedPrompt => {
+  const brand = brandGuidelines(false);
+  return brand ? { text: `${prompt.text}\n\n${brand.text}`, version: `${prompt.version}, ${brand.version}` } : prompt;
+};
+
+// Brand logo attached to image generation requests
+const brandLogoImage = (): InlineImage | null =>
+  activeBrandKit?.logo ? toInlineImage(activeBrandKit.logo) : null;
+
+// Prompt fragments per output language
+const LANGUAGE_PROMPTS: Record<OutputLanguage, { name: string; slideText: string; outline: string }> = {
+  [OutputLanguage.JAPANESE]: {
+    name: '日本語',
+    slideText: '文字は日本語で、読みやすく配置してください。',
+    outline: '言語は日本語でお願いします。'
+  },
+  [OutputLanguage.ENGLISH]: {
+    name: '英語 (English)',
+    slideText: 'スライド内の文字はすべて英語 (English) で、読みやすく配置してください。日本語は使わないでください。',
+    outline: 'すべての項目を英語 (English) で記述してください。'
+  },
+  [OutputLanguage.BILINGUAL]: {
+    name: '日本語と英語の併記',
+    slideText: '文字は日本語を主とし、タイトルと見出しには英語訳を併記してください（例: 市場分析 / Market Analysis）。読みやすく配置してください。',
+    outline: 'title と content は日本語と英語を併記してください（例: 市場分析 / Market Analysis）。visualCue・emphasis・mood は日本語で構いません。speakerNotes は日本語の原稿の後に英語訳を続けてください。'
   }
-  return new GoogleGenAI({ apiKey });
 };
 
+const COMPLEXITY_TEMPLATES: Record<Complexity, PromptTemplateId> = {
+  [Complexity.STANDARD]: 'complexityStandard',
+  [Complexity.LIGHT]: 'complexityLight',
+  [Complexity.SIMPLE]: 'complexitySimple'
+};
+
+const FALLBACK_SUGGESTIONS: Record<OutputLanguage, string[]> = {
+  [OutputLanguage.JAPANESE]: ["テキストの密度を減らす", "高品質なアイコンを使用する", "十分なコントラストを確保する"],
+  [OutputLanguage.ENGLISH]: ["Reduce text density", "Use high-quality icons", "Ensure sufficient contrast"],
+  [OutputLanguage.BILINGUAL]: ["テキストの密度を減らす / Reduce text density", "高品質なアイコンを使用する / Use high-quality icons", "十分なコントラストを確保する / Ensure sufficient contrast"]
+};
+
+export interface PageGenerationFailure {
+  pageId: string;
+  pageNumber: number;
+  title: string;
+  error: string;
+}
+
+export interface OutlineResult {
+  pages: PresentationPage[];
+  warnings: string[]; // Problems that were normalized or repaired automatically
+}
+
+const OUTLINE_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      pageNumber: { type: Type.INTEGER },
+      title: { type: Type.STRING },
+      content: { type: Type.STRING },
+      visualCue: { type: Type.STRING },
+      emphasis: { type: Type.STRING },
+      mood: { type: Type.STRING },
+      speakerNotes: { type: Type.STRING }
+    },
+    required: ['pageNumber', 'title', 'content', 'visualCue', 'emphasis', 'mood', 'speakerNotes']
+  }
+};
+
+// Parse and validate a raw outline response; unparsable text is reported as needing repair
+const checkOutlineResponse = (text: string, pageCount: number): OutlineValidationResult => {
+  try {
+    return validateOutline(parseJsonResponse(text), pageCount);
+  } catch (e: any) {
+    return { pages: [], issues: [`JSONとして解析できません: ${e?.message || e}`], needsRepair: true };
+  }
+};
+
+export interface VariationGenerationFailure {
+  index: number; // 1-based variation (animation step in animation mode)
+  error: string;
+}
+
+export interface InfographicsResult {
+  images: GeneratedImage[];
+  failures: VariationGenerationFailure[]; // Variations that still failed after retries
+}
+
+export interface BatchEditResult {
+  sourceId: string; // Image the instruction was applied to
+  image: GeneratedImage | null;
+  error?: string;
+}
+
+export interface DeckGenerationResult {
+  images: GeneratedImage[];
+  failures: PageGenerationFailure[];
+}
+
 /**
  * Generates suggestions for improving a slide based on the topic.
  */
-export const generateSuggestions = async (topic: string): Promise<string[]> => {
+export const generateSuggestions = async (
+  topic: string,
+  language: OutputLanguage
+): Promise<string[]> => {
   try {
-    const ai = getAiClient();
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `"${topic}"に関するプレゼンテーションスライドを視覚的に改善するための、具体的で短い3つのポイントを日本語で提案してください。
-      レイアウト、色、明瞭さに焦点を当ててください。有効なJSON文字列配列として返してください。`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: { type: Type.STRING }
-        }
-      }
-    });
+    const prompt = appendBrandGuidelines(renderPrompt('suggestions', { topic, languageName: LANGUAGE_PROMPTS[language].name }));
+
+    const text = await scheduler.run(() => getAiProvider().generateText({
+      task: 'suggestions',
+      prompt: prompt.text,
+      responseSchema: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING }
+      },
+      context: { topic, language }
+    }), 'Suggestions');
 
-    const text = response.text;
     if (text) {
       return JSON.parse(text);
     }
-    return ["コントラストを上げる", "テキストを簡潔にする", "配色を統一する"];
+    return FALLBACK_SUGGESTIONS[language];
   } catch (error) {
     console.error("Error generating suggestions:", error);
-    return ["テキストの密度を減らす", "高品質なアイコンを使用する", "十分なコントラストを確保する"];
+    return FALLBACK_SUGGESTIONS[language];
   }
 };
 
 /**
  * Generates a presentation outline (JSON) based on topic and page count.
+ * The response is validated and normalized; if it is unusable, the model gets one
+ * repair round-trip with the detected issues before an OutlineValidationError is thrown.
  */
 export const generatePresentationOutline = async (
   topic: string,
   pageCount: number,
-  complexity: Complexity
-): Promise<PresentationPage[]> => {
-  const ai = getAiClient();
-
-  const prompt = `あなたはプロのプレゼンテーション構成作家です。
-  以下のテーマで${pageCount}枚のプレゼンテーション資料の構成を作成してください。
-
-  テーマ: ${topic}
-  複雑さ: ${complexity}
-
-  各ページについて、以下の要素を含むJSON配列を返してください:
-  - pageNumber: ページ番号
-  - title: スライドのタイトル
-  - content: スライドの具体的なテキスト内容（箇条書きなど）
-  - visualCue: 生成AIへの画像生成指示（視覚表現の具体的な説明）
-  - emphasis: 強調ポイント
-  - mood: 温度感（例：信頼感、危機感、希望など）
-
-  言語は日本語でお願いします。`;
+  complexity: Complexity,
+  language: OutputLanguage,
+  talkDurationMinutes: number
+): Promise<OutlineResult> => {
+  const languageInstruction = LANGUAGE_PROMPTS[language].outline;
+  const prompt = appendBrandGuidelines(renderPrompt('outline', {
+    topic,
+    pageCount,
+    complexity,
+    talkDuration: talkDurationMinutes,
+    languageInstruction
+  }));
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              pageNumber: { type: Type.INTEGER },
-              title: { type: Type.STRING },
-              content: { type: Type.STRING },
-              visualCue: { type: Type.STRING },
-              emphasis: { type: Type.STRING },
-              mood: { type: Type.STRING }
-            }
-          }
-        }
-      }
-    });
+    const text = await scheduler.run(() => getAiProvider().generateText({
+      task: 'outline',
+      prompt: prompt.text,
+      responseSchema: OUTLINE_SCHEMA,
+      context: { topic, pageCount, complexity, language, talkDurationMinutes }
+    }), 'Outline');
+
+    const result = checkOutlineResponse(text, pageCount);
+    if (!result.needsRepair) {
+      return { pages: result.pages, warnings: result.issues };
+    }
 
-    const text = response.text;
-    if (text) return JSON.parse(text);
-    return [];
+    console.warn("Outline response invalid, requesting repair", result.issues);
+    const repairPrompt = appendBrandGuidelines(renderPrompt('outlineRepair', {
+      topic,
+      pageCount,
+      talkDuration: talkDurationMinutes,
+      issues: result.issues.map(issue => `- ${issue}`).join('\n'),
+      response: text || '(空の応答)',
+      languageInstruction
+    }));
+
+    const repairedText = await scheduler.run(() => getAiProvider().generateText({
+      task: 'outlineRepair',
+      prompt: repairPrompt.text,
+      responseSchema: OUTLINE_SCHEMA,
+      context: { topic, pageCount, complexity, language, talkDurationMinutes }
+    }), 'Outline repair');
+
+    const repaired = checkOutlineResponse(repairedText, pageCount);
+    if (repaired.pages.length === 0) {
+      throw new OutlineValidationError("構成案の形式が不正で、自動修復もできませんでした。", repaired.issues);
+    }
+    // Remaining issues (e.g. fewer pages than requested) are left for the user to fix in the editor
+    return { pages: repaired.pages, warnings: ['構成案の形式に問題があったため自動修復しました', ...repaired.issues] };
   } catch (e) {
     console.error("Outline generation failed", e);
     throw e;
@@ -100,232 +227,428 @@ export const generatePresentationOutline = async (
 };
 
 /**
- * Generates presentation infographics using Gemini 3 Pro Image Preview
- * Supports Reference Image and Animation Mode
+ * Proposes a rewrite of one outline page following an instruction.
+ * The rest of the outline is sent as context; the caller decides whether to apply the proposal.
  */
-export const generateInfographics = async (
+export const rewriteOutlinePage = async (
+  topic: string,
+  outline: PresentationPage[],
+  pageId: string,
+  instruction: string,
+  language: OutputLanguage
+): Promise<PresentationPage> => {
+  const page = outline.find(p => p.id === pageId);
+  if (!page) throw new Error("書き直すページが見つかりません");
+
+  const { id: _id, ...pageFields } = page;
+  const outlineSummary = outline
+    .map(p => `${p.pageNumber}. ${p.title}${p.id === pageId ? '（書き直し対象）' : ''}\n   ${p.content.replace(/\s+/g, ' ').substring(0, 120)}`)
+    .join('\n');
+
+  const prompt = appendBrandGuidelines(renderPrompt('pageRewrite', {
+    topic,
+    outline: outlineSummary,
+    pageNumber: page.pageNumber,
+    page: JSON.stringify(pageFields, null, 2),
+    instruction,
+    languageInstruction: LANGUAGE_PROMPTS[language].outline
+  }));
+
+  const text = await scheduler.run(() => getAiProvider().generateText({
+    task: 'pageRewrite',
+    prompt: prompt.text,
+    responseSchema: OUTLINE_SCHEMA.items,
+    context: { topic, page: pageFields, instruction, language }
+  }), `Rewrite page ${page.pageNumber}`);
+
+  let result: OutlineValidationResult;
+  try {
+    const parsed = parseJsonResponse(text);
+    result = validateOutline(Array.isArray(parsed) ? parsed.slice(0, 1) : [parsed], 1);
+  } catch (e: any) {
+    throw new OutlineValidationError("書き直し案を読み取れませんでした。", [`JSONとして解析できません: ${e?.message || e}`]);
+  }
+  if (result.needsRepair) {
+    throw new OutlineValidationError("書き直し案の形式が不正です。", result.issues);
+  }
+
+  // Keep identity and position; only the content fields are proposed
+  return { ...result.pages[0], id: page.id, pageNumber: page.pageNumber };
+};
+
+// Base prompt (plus reference image) shared by parallel variations and sequential animation chains
+const buildInfographicRequest = (
   prompt: string,
   complexity: Complexity,
   style: string,
-  count: number,
+  stepCount: number,
   referenceImage: string | null,
-  isAnimationMode: boolean
-): Promise<GeneratedImage[]> => {
-  const ai = getAiClient();
-
-  let complexityPrompt = "";
-  switch (complexity) {
-    case Complexity.STANDARD:
-      complexityPrompt = "標準的なビジネスインフォグラフィック。テキストとビジュアルのバランスが良い。プロフェッショナルで詳細。";
-      break;
-    case Complexity.LIGHT:
-      complexityPrompt = "明るく軽やかなインフォグラフィック。余白を効果的に使用。清潔感がありモダン。";
-      break;
-    case Complexity.SIMPLE:
-      complexityPrompt = "非常にシンプルなスライド。インパクト重視で詳細は省く。一つの重要なメッセージに焦点を当てる。";
-      break;
-  }
+  isAnimationMode: boolean,
+  output: ImageOutputOptions,
+  language: OutputLanguage
+) => {
+  const complexityPrompt = renderPrompt(COMPLEXITY_TEMPLATES[complexity]);
+  const basePrompt = renderPrompt('infographic', {
+    topic: prompt,
+    style,
+    complexity: complexityPrompt.text,
+    aspectRatio: output.aspectRatio,
+    languageName: LANGUAGE_PROMPTS[language].name,
+    languageInstruction: LANGUAGE_PROMPTS[language].slideText
+  });
 
-  let fullPrompt = `高品質なプレゼンテーションスライドまたはインフォグラフィックを作成してください。
-  テーマ: ${prompt}
-  スタイル: ${style}
-  複雑さ: ${complexityPrompt}
-  プロフェッショナルなプレゼンテーションに適した画像にしてください。
-  アスペクト比: 16:9
-  言語: 日本語
-  `;
+  let fullPrompt = basePrompt.text;
+  const templateVersions = [basePrompt.version, complexityPrompt.version];
 
   if (isAnimationMode) {
-    fullPrompt += `
-    【重要】アニメーション用の連作スライドを作成してください。
-    1枚の完成図を${count}段階のステップに分割し、徐々に要素が増えていく、または変化していく様子を描写してください。
-    例: Step 1: 背景と基本図形のみ -> Step 2: 矢印とアイコンが追加 -> Step 3: 詳細テキストと強調効果が追加。
-    それぞれの画像が一連のアニメーションとして成立するように整合性を保ってください。
-    `;
+    const animationPrompt = renderPrompt('animation', { stepCount });
+    fullPrompt += `\n\n${animationPrompt.text}`;
+    templateVersions.push(animationPrompt.version);
   }
 
-  const parts: any[] = [{ text: fullPrompt }];
+  const images: InlineImage[] = [];
 
   // Add reference image if provided
   if (referenceImage) {
-    const match = referenceImage.match(/^data:(.+);base64,(.+)$/);
-    if (match) {
-      parts.push({
-        inlineData: {
-          mimeType: match[1],
-          data: match[2]
-        }
-      });
-      parts[0].text += "\n\n提供された画像のスタイル、配色、トーン＆マナーを厳密に参考にしてください。";
+    const inlineImage = toInlineImage(referenceImage);
+    if (inlineImage) {
+      const referencePrompt = renderPrompt('referenceStyle');
+      images.push(inlineImage);
+      fullPrompt += `\n\n${referencePrompt.text}`;
+      templateVersions.push(referencePrompt.version);
     }
   }
 
+  const logo = brandLogoImage();
+  if (logo) images.push(logo);
+  const brandPrompt = brandGuidelines(logo !== null);
+  if (brandPrompt) {
+    fullPrompt += `\n\n${brandPrompt.text}`;
+    templateVersions.push(brandPrompt.version);
+  }
+
+  return { fullPrompt, templateVersions, images };
+};
+
+/**
+ * Generates presentation infographics using Gemini 3 Pro Image Preview
+ * Supports Reference Image and Animation Mode.
+ * Variations that fail after retries are reported in failures rather than dropped silently.
+ */
+export const generateInfographics = async (
+  prompt: string,
+  complexity: Complexity,
+  style: string,
+  count: number,
+  referenceImage: string | null,
+  isAnimationMode: boolean,
+  output: ImageOutputOptions,
+  language: OutputLanguage
+): Promise<InfographicsResult> => {
+  const { fullPrompt, templateVersions, images } = buildInfographicRequest(
+    prompt, complexity, style, count, referenceImage, isAnimationMode, output, language
+  );
+
   // We generate sequentially or in parallel depending on requirements.
   // For animation/reference consistency, sometimes single request with multiple images is better,
   // but Gemini API currently generates one main image per 'generateContent' usually unless requested otherwise or via Imagen.
-  // We will loop.
+  // We will loop; the shared scheduler limits how many requests run at once and retries rate-limited ones.
+  // (generateAnimationChain is the sequential alternative for animation mode.)
 
-  const promises = Array.from({ length: count }).map(async (_, index) => {
+  const failures: VariationGenerationFailure[] = [];
+
+  const promises = Array.from({ length: count }).map(async (_, index): Promise<GeneratedImage | null> => {
     try {
-      const currentPrompt = isAnimationMode
-        ? `${fullPrompt}\nこれはアニメーションのステップ ${index + 1} / ${count} です。前のステップの要素を含みつつ、新しい情報を追加してください。`
-        : fullPrompt;
-
-      const requestParts = [...parts];
-      requestParts[0] = { text: currentPrompt };
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-image-preview',
-        contents: {
-          parts: requestParts,
-        },
-        config: {
-          imageConfig: {
-            aspectRatio: "16:9",
-            imageSize: "1K"
-          }
-        },
-      });
-
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-          const base64Data = part.inlineData.data;
-          const mimeType = part.inlineData.mimeType || 'image/png';
-          return {
-            id: `gen-${Date.now()}-${index}`,
-            url: `data:${mimeType};base64,${base64Data}`,
-            promptUsed: currentPrompt
-          };
-        }
+      const stepPrompt = isAnimationMode ? renderPrompt('animationStep', { step: index + 1, stepCount: count }) : null;
+      const currentPrompt = stepPrompt ? `${fullPrompt}\n${stepPrompt.text}` : fullPrompt;
+
+      const url = await scheduler.run(() => getAiProvider().generateImage({
+        task: 'generate',
+        prompt: currentPrompt,
+        images,
+        aspectRatio: output.aspectRatio,
+        imageSize: output.imageSize
+      }), `Image ${index + 1}`);
+
+      if (url) {
+        return {
+          id: `gen-${Date.now()}-${index}`,
+          url,
+          promptUsed: currentPrompt,
+          templateVersion: [...templateVersions, ...(stepPrompt ? [stepPrompt.version] : [])].join(', '),
+          animationStep: isAnimationMode ? index + 1 : undefined,
+          output,
+          createdAt: Date.now()
+        };
       }
-    } catch (e) {
+      failures.push({ index: index + 1, error: '画像が返されませんでした' });
+    } catch (e: any) {
       console.error(`Generation failed for image ${index + 1}`, e);
-      return null;
+      failures.push({ index: index + 1, error: e?.message || String(e) });
     }
     return null;
   });
 
   const results = await Promise.all(promises);
-  return results.filter((img): img is GeneratedImage => img !== null);
+  failures.sort((a, b) => a.index - b.index);
+  return {
+    images: results.filter((img): img is GeneratedImage => img !== null),
+    failures
+  };
 };
 
+export interface AnimationChainResult {
+  images: GeneratedImage[];
+  failedStep: number | null; // The chain stops here; restart from this step to continue
+}
 
 /**
- * Generates a single slide image for a specific presentation page
+ * Generates animation steps one after another, passing each step's image into the next request
+ * so the layout stays consistent. Starts at fromStep; previousStep is the image of fromStep - 1
+ * (null when starting from step 1). onStep is called as soon as each step is ready.
  */
-export const generatePresentationPageImage = async (
-  page: PresentationPage,
+export const generateAnimationChain = async (
+  prompt: string,
+  complexity: Complexity,
   style: string,
-  referenceImage: string | null
-): Promise<GeneratedImage | null> => {
-  const ai = getAiClient();
+  stepCount: number,
+  referenceImage: string | null,
+  output: ImageOutputOptions,
+  language: OutputLanguage,
+  fromStep: number,
+  previousStep: GeneratedImage | null,
+  onStep?: (image: GeneratedImage) => void
+): Promise<AnimationChainResult> => {
+  const { fullPrompt, templateVersions, images } = buildInfographicRequest(
+    prompt, complexity, style, stepCount, referenceImage, true, output, language
+  );
+
+  const generated: GeneratedImage[] = [];
+  let previous = previousStep;
+
+  for (let step = fromStep; step <= stepCount; step++) {
+    const previousImage = previous ? toInlineImage(previous.url) : null;
+    const stepPrompt = previousImage
+      ? renderPrompt('animationChainStep', { step, previousStep: step - 1, stepCount })
+      : renderPrompt('animationStep', { step, stepCount });
+    const currentPrompt = `${fullPrompt}\n${stepPrompt.text}`;
 
-  // Use fallbacks if specific instructions are missing (e.g. from CSV import)
-  const visualCue = page.visualCue || "スライドの内容を効果的に伝える、プロフェッショナルなビジュアルや図解を自動的に生成してください。";
-  const emphasis = page.emphasis || "内容の要点を視覚的に強調する";
-  const mood = page.mood || "信頼感のある";
+    try {
+      // The previous step goes first so the model treats it as the image to build on
+      const url = await scheduler.run(() => getAiProvider().generateImage({
+        task: previousImage ? 'edit' : 'generate',
+        prompt: currentPrompt,
+        images: previousImage ? [previousImage, ...images] : images,
+        aspectRatio: output.aspectRatio,
+        imageSize: output.imageSize
+      }), `Step ${step}`);
+
+      if (!url) throw new Error('画像が返されませんでした');
+
+      const image: GeneratedImage = {
+        id: `gen-${Date.now()}-${step}`,
+        url,
+        promptUsed: currentPrompt,
+        templateVersion: [...templateVersions, stepPrompt.version].join(', '),
+        animationStep: step,
+        output,
+        createdAt: Date.now()
+      };
+      generated.push(image);
+      onStep?.(image);
+      previous = image;
+    } catch (e) {
+      console.error(`Generation failed for animation step ${step}`, e);
+      return { images: generated, failedStep: step };
+    }
+  }
 
-  const prompt = `プレゼンテーションスライドを作成してください。
-  ページ: ${page.pageNumber}
-  タイトル: ${page.title}
-  内容: ${page.content}
+  return { images: generated, failedStep: null };
+};
 
-  視覚表現の指示: ${visualCue}
-  強調ポイント: ${emphasis}
-  温度感: ${mood}
-  スタイル: ${style}
 
-  文字は日本語で、読みやすく配置してください。インフォグラフィック要素を取り入れてください。`;
+// Builds and sends the page prompt; throws if the request fails after retries.
+// With a text layout, the model draws a text-free background and the slide carries a text layer instead.
+const renderPresentationPage = async (
+  page: PresentationPage,
+  style: string,
+  referenceImage: string | null,
+  output: ImageOutputOptions,
+  language: OutputLanguage,
+  textLayout: TextLayerLayout | null
+): Promise<GeneratedImage> => {
+  // Use fallbacks if specific instructions are missing (e.g. from CSV import)
+  const visualCue = page.visualCue || OUTLINE_FIELD_DEFAULTS.visualCue;
+  const emphasis = page.emphasis || OUTLINE_FIELD_DEFAULTS.emphasis;
+  const mood = page.mood || OUTLINE_FIELD_DEFAULTS.mood;
+
+  const pagePrompt = textLayout
+    ? renderPrompt('textFreePage', {
+      pageNumber: page.pageNumber,
+      title: page.title,
+      content: page.content,
+      visualCue,
+      emphasis,
+      mood,
+      style,
+      layoutInstruction: TEXT_LAYER_LAYOUTS[textLayout].promptHint
+    })
+    : renderPrompt('presentationPage', {
+      pageNumber: page.pageNumber,
+      title: page.title,
+      content: page.content,
+      visualCue,
+      emphasis,
+      mood,
+      style,
+      languageInstruction: LANGUAGE_PROMPTS[language].slideText
+    });
 
-  const parts: any[] = [{ text: prompt }];
+  let prompt = pagePrompt.text;
+  const templateVersions = [pagePrompt.version];
+  const images: InlineImage[] = [];
 
   if (referenceImage) {
-    const match = referenceImage.match(/^data:(.+);base64,(.+)$/);
-    if (match) {
-      parts.push({
-        inlineData: {
-          mimeType: match[1],
-          data: match[2]
-        }
-      });
-      parts[0].text += "\n\n【最重要】提供された画像のスタイル（配色、フォントの雰囲気、アイコンのスタイル）を維持して、統一感のあるスライドセットの一部として作成してください。";
+    const inlineImage = toInlineImage(referenceImage);
+    if (inlineImage) {
+      const referencePrompt = renderPrompt('pageReferenceStyle');
+      images.push(inlineImage);
+      prompt += `\n\n${referencePrompt.text}`;
+      templateVersions.push(referencePrompt.version);
     }
   }
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: { parts },
-      config: {
-        imageConfig: {
-          aspectRatio: "16:9",
-          imageSize: "1K"
-        }
-      },
-    });
+  const logo = brandLogoImage();
+  if (logo) images.push(logo);
+  const brandPrompt = brandGuidelines(logo !== null);
+  if (brandPrompt) {
+    prompt += `\n\n${brandPrompt.text}`;
+    templateVersions.push(brandPrompt.version);
+  }
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        const base64Data = part.inlineData.data;
-        const mimeType = part.inlineData.mimeType || 'image/png';
-        return {
-          id: `pres-page-${page.pageNumber}-${Date.now()}`,
-          url: `data:${mimeType};base64,${base64Data}`,
-          promptUsed: prompt
-        };
-      }
-    }
+  const url = await scheduler.run(() => getAiProvider().generateImage({
+    task: 'generate',
+    prompt,
+    images,
+    aspectRatio: output.aspectRatio,
+    imageSize: output.imageSize
+  }), `Page ${page.pageNumber}`);
+
+  if (!url) {
+    throw new Error("画像が返されませんでした");
+  }
+
+  return {
+    id: `pres-page-${page.pageNumber}-${Date.now()}`,
+    url,
+    promptUsed: prompt,
+    templateVersion: templateVersions.join(', '),
+    pageId: page.id,
+    textLayer: textLayout ? createTextLayer(textLayout, page) : undefined,
+    output,
+    createdAt: Date.now()
+  };
+};
+
+/**
+ * Generates a single slide image for a specific presentation page
+ */
+export const generatePresentationPageImage = async (
+  page: PresentationPage,
+  style: string,
+  referenceImage: string | null,
+  output: ImageOutputOptions,
+  language: OutputLanguage,
+  textLayout: TextLayerLayout | null = null
+): Promise<GeneratedImage | null> => {
+  try {
+    return await renderPresentationPage(page, style, referenceImage, output, language, textLayout);
   } catch (e) {
     console.error(`Page ${page.pageNumber} generation failed`, e);
     return null;
   }
-  return null;
 };
 
 /**
- * Edits an existing image using Gemini 2.5 Flash Image
+ * Generates every page of a deck through the shared scheduler.
+ * Pages that still fail after retries are reported instead of silently dropped;
+ * each returned image carries the pageId of the page it renders.
+ */
+export const generatePresentationDeck = async (
+  pages: PresentationPage[],
+  style: string,
+  referenceImage: string | null,
+  output: ImageOutputOptions,
+  language: OutputLanguage,
+  textLayout: TextLayerLayout | null,
+  onProgress?: (completed: number, total: number) => void
+): Promise<DeckGenerationResult> => {
+  let completed = 0;
+  const failures: PageGenerationFailure[] = [];
+
+  const results = await Promise.all(pages.map(async (page) => {
+    try {
+      return await renderPresentationPage(page, style, referenceImage, output, language, textLayout);
+    } catch (e: any) {
+      console.error(`Page ${page.pageNumber} generation failed`, e);
+      failures.push({ pageId: page.id, pageNumber: page.pageNumber, title: page.title, error: e?.message || String(e) });
+      return null;
+    } finally {
+      completed++;
+      onProgress?.(completed, pages.length);
+    }
+  }));
+
+  failures.sort((a, b) => a.pageNumber - b.pageNumber);
+  return {
+    images: results.filter((img): img is GeneratedImage => img !== null),
+    failures
+  };
+};
+
+/**
+ * Edits an existing image using Gemini 2.5 Flash Image.
+ * With a mask (see maskService), the model is shown the region to change and its result is
+ * composited back so pixels outside the mask stay identical to the source.
  */
 export const editInfographic = async (
   base64Image: string,
-  instruction: string
+  instruction: string,
+  output: ImageOutputOptions,
+  language: OutputLanguage,
+  mask: string | null = null
 ): Promise<GeneratedImage | null> => {
   try {
-    const ai = getAiClient();
-
     // Extract base64 data and mime type
-    const match = base64Image.match(/^data:(.+);base64,(.+)$/);
-    if (!match) throw new Error("Invalid base64 image data");
-
-    const mimeType = match[1];
-    const data = match[2];
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType,
-              data
-            }
-          },
-          {
-            text: `この画像を編集してください: ${instruction}。全体的なレイアウトは維持しつつ、要求された変更を適用してください。`
-          }
-        ]
-      }
-    });
+    const sourceImage = toInlineImage(base64Image);
+    if (!sourceImage) throw new Error("Invalid base64 image data");
+
+    const images = [sourceImage];
+    if (mask) {
+      const maskImage = toInlineImage(await maskToModelImage(mask));
+      if (!maskImage) throw new Error("Invalid mask image data");
+      images.push(maskImage);
+    }
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        const newBase64Data = part.inlineData.data;
-        const newMimeType = part.inlineData.mimeType || 'image/png';
-        return {
-          id: `edit-${Date.now()}`,
-          url: `data:${newMimeType};base64,${newBase64Data}`,
-          promptUsed: instruction
-        };
-      }
+    const prompt = appendBrandGuidelines(renderPrompt(mask ? 'maskedEdit' : 'edit', { instruction, languageName: LANGUAGE_PROMPTS[language].name }));
+
+    const url = await scheduler.run(() => getAiProvider().generateImage({
+      task: 'edit',
+      prompt: prompt.text,
+      images,
+      aspectRatio: output.aspectRatio,
+      imageSize: output.imageSize
+    }), 'Edit');
+
+    if (url) {
+      return {
+        id: `edit-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        url: mask ? await compositeMaskedEdit(base64Image, url, mask) : url,
+        promptUsed: instruction,
+        templateVersion: prompt.version,
+        output,
+        createdAt: Date.now()
+      };
     }
   } catch (error) {
     console.error("Error editing image:", error);
@@ -333,3 +656,29 @@ export const editInfographic = async (
   }
   return null;
 };
+
+/**
+ * Applies one edit instruction to several images through the shared scheduler.
+ * Each result is reported as soon as it arrives so it can be reviewed while the rest are still running.
+ * Every image keeps its own output settings; fallbackOutput is for images that did not record any.
+ */
+export const editInfographicBatch = async (
+  sources: GeneratedImage[],
+  instruction: string,
+  fallbackOutput: ImageOutputOptions,
+  language: OutputLanguage,
+  onResult?: (result: BatchEditResult) => void
+): Promise<BatchEditResult[]> =>
+  Promise.all(sources.map(async (source) => {
+    let result: BatchEditResult;
+    try {
+      const image = await editInfographic(source.url, instruction, source.output ?? fallbackOutput, language);
+      result = image
+        ? { sourceId: source.id, image }
+        : { sourceId: source.id, image: null, error: '画像が返されませんでした' };
+    } catch (e: any) {
+      result = { sourceId: source.id, image: null, error: e?.message || String(e) };
+    }
+    onResult?.(result);
+    return result;
+  }));
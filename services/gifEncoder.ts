@@ -0,0 +1,227 @@
+/**
+ * Minimal animated GIF (GIF89a) encoder.
+ * All frames share one 256-color palette picked by popularity from a 15-bit color histogram,
+ * which suits flat slide graphics; pixels are mapped to the nearest palette color.
+ */
+
+export interface GifFrame {
+  data: Uint8ClampedArray; // RGBA, width * height * 4
+  delayMs: number;
+}
+
+export interface GifOptions {
+  width: number;
+  height: number;
+  loopCount: number | null; // 0 = forever, N = repeat N more times, null = play once
+}
+
+const PALETTE_SIZE = 256;
+
+// 5 bits per channel color key
+const colorKey = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+const buildPalette = (frames: GifFrame[]): Uint8Array => {
+  const histogram = new Uint32Array(1 << 15);
+  for (const frame of frames) {
+    const { data } = frame;
+    // Sample every other pixel; plenty for palette selection
+    for (let i = 0; i < data.length; i += 8) {
+      histogram[colorKey(data[i], data[i + 1], data[i + 2])]++;
+    }
+  }
+
+  const keys = Array.from(histogram.keys())
+    .filter(key => histogram[key] > 0)
+    .sort((a, b) => histogram[b] - histogram[a])
+    .slice(0, PALETTE_SIZE);
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  keys.forEach((key, index) => {
+    // Center of the 5-bit bucket
+    palette[index * 3] = ((key >> 10) << 3) | 4;
+    palette[index * 3 + 1] = (((key >> 5) & 31) << 3) | 4;
+    palette[index * 3 + 2] = ((key & 31) << 3) | 4;
+  });
+  return palette;
+};
+
+const createIndexer = (palette: Uint8Array) => {
+  const cache = new Int16Array(1 << 15).fill(-1);
+  return (r: number, g: number, b: number): number => {
+    const key = colorKey(r, g, b);
+    const cached = cache[key];
+    if (cached >= 0) return cached;
+
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < PALETTE_SIZE; i++) {
+      const dr = palette[i * 3] - r;
+      const dg = palette[i * 3 + 1] - g;
+      const db = palette[i * 3 + 2] - b;
+      const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    cache[key] = best;
+    return best;
+  };
+};
+
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  length = 0;
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  byte(value: number) {
+    this.ensure(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  word(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    this.ensure(values.length);
+    this.buffer.set(values, this.length);
+    this.length += values.length;
+  }
+
+  string(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  result(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+// GIF variable-length-code LZW compression, written as data sub-blocks
+const writeLzw = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dictionary = new Map<number, number>();
+
+  const block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    if (block.length === 0) return;
+    out.byte(block.length);
+    out.bytes(block);
+    block.length = 0;
+  };
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) flushBlock();
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const pixel = indices[i];
+    const key = (prefix << 8) | pixel;
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode < 4096) {
+      dictionary.set(key, nextCode++);
+      if (nextCode > (1 << codeSize) && codeSize < 12) codeSize++;
+    } else {
+      // Table full: start over
+      emit(clearCode);
+      dictionary = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = pixel;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) {
+    block.push(bitBuffer & 0xff);
+    if (block.length === 255) flushBlock();
+  }
+  flushBlock();
+  out.byte(0); // block terminator
+};
+
+export const encodeGif = (frames: GifFrame[], options: GifOptions): Uint8Array => {
+  const { width, height } = options;
+  const palette = buildPalette(frames);
+  const toIndex = createIndexer(palette);
+  const out = new ByteWriter();
+
+  out.string('GIF89a');
+  out.word(width);
+  out.word(height);
+  out.byte(0xf7); // global color table, 8 bits per channel, 256 entries
+  out.byte(0); // background color index
+  out.byte(0); // pixel aspect ratio
+  out.bytes(palette);
+
+  if (options.loopCount !== null) {
+    out.byte(0x21);
+    out.byte(0xff);
+    out.byte(11);
+    out.string('NETSCAPE2.0');
+    out.byte(3);
+    out.byte(1);
+    out.word(options.loopCount);
+    out.byte(0);
+  }
+
+  const indices = new Uint8Array(width * height);
+  for (const frame of frames) {
+    // Graphic control extension: delay in centiseconds (browsers clamp values below 2)
+    out.byte(0x21);
+    out.byte(0xf9);
+    out.byte(4);
+    out.byte(0);
+    out.word(Math.max(2, Math.round(frame.delayMs / 10)));
+    out.byte(0);
+    out.byte(0);
+
+    // Image descriptor, full frame using the global palette
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(width);
+    out.word(height);
+    out.byte(0);
+
+    const { data } = frame;
+    for (let i = 0, p = 0; p < indices.length; i += 4, p++) {
+      indices[p] = toIndex(data[i], data[i + 1], data[i + 2]);
+    }
+    writeLzw(out, indices, 8);
+  }
+
+  out.byte(0x3b); // trailer
+  return out.result();
+};
@@ -374,9 +374,32 @@ export const uploadImageToDriveInFolder = async (
   imageDataUrl: string,
   fileName: string,
   folderId: string
+): Promise<string> => {
+  return uploadBlobToDriveInFolder(base64ToBlob(imageDataUrl), fileName, folderId);
+};
+
+/**
+ * Upload a text file (e.g. speaker notes) to Google Drive
+ */
+export const uploadTextFileToDriveInFolder = async (
+  text: string,
+  fileName: string,
+  folderId: string,
+  mimeType = 'text/plain'
+): Promise<string> => {
+  return uploadBlobToDriveInFolder(new Blob([text], { type: `${mimeType};charset=utf-8` }), fileName, folderId);
+};
+
+/**
+ * Upload any file content to Google Drive (with folder support)
+ */
+export const uploadBlobToDriveInFolder = async (
+  blob: Blob,
+  fileName: string,
+  folderId: string
 ): Promise<string> => {
   try {
-    console.log('Uploading image:', fileName, 'to folder:', folderId);
+    console.log('Uploading file:', fileName, 'to folder:', folderId);
 
     if (!GOOGLE_CLIENT_ID) {
       const errorMsg = 'Google Client IDが設定されていません。環境変数VITE_GOOGLE_CLIENT_IDを設定してください。';
@@ -407,8 +430,7 @@ export const uploadImageToDriveInFolder = async (
     const accessToken = authResponse.access_token;
     console.log('Access token obtained for upload');
 
-    const blob = base64ToBlob(imageDataUrl);
-    console.log('Blob created, size:', blob.size);
+    console.log('Blob size:', blob.size);
 
     const metadata = {
       name: fileName,
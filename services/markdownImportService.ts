@@ -0,0 +1,147 @@
+import { PresentationPage } from "../types";
+import { OutlineField, createBlankPage, matchOutlineField, renumberPages } from "./outlineService";
+
+/**
+ * Markdown / plain-text import for presentation outlines.
+ *
+ * - H1/H2 headings start a page and become its title (a single leading H1 above H2s is treated as the document title)
+ * - Bullets and paragraphs become the page content
+ * - Blockquotes and fenced blocks with "key: value" lines fill visualCue / emphasis / mood / speakerNotes;
+ *   a blockquote without a key is used as the visual cue
+ * - Plain text without headings: each blank-line separated block is a page, its first line the title
+ */
+
+export interface MarkdownImportResult {
+  pages: PresentationPage[];
+  issues: string[];
+}
+
+const METADATA_FIELDS: OutlineField[] = ['visualCue', 'emphasis', 'mood', 'speakerNotes'];
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const BULLET_PATTERN = /^(\s*)(?:[-*+・]|\d+[.)])\s+(.*)$/;
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const METADATA_PATTERN = /^\s*([^:：]+)[:：]\s*(.*)$/;
+
+interface PageDraft {
+  page: PresentationPage;
+  contentLines: string[];
+}
+
+const appendField = (page: PresentationPage, field: OutlineField, value: string) => {
+  if (field === 'pageNumber' || !value) return;
+  page[field] = page[field] ? `${page[field]}\n${value}` : value;
+};
+
+// Returns true when the line was a recognized "key: value" metadata entry
+const applyMetadataLine = (page: PresentationPage, line: string): boolean => {
+  const match = line.match(METADATA_PATTERN);
+  if (!match) return false;
+  const field = matchOutlineField(match[1]);
+  if (!field || !METADATA_FIELDS.includes(field)) return false;
+  appendField(page, field, match[2].trim());
+  return true;
+};
+
+export const parseMarkdownOutline = (text: string): MarkdownImportResult => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const issues: string[] = [];
+
+  // Choose which heading levels start a page
+  const headingLevels = lines
+    .map(line => line.match(HEADING_PATTERN)?.[1].length)
+    .filter((level): level is number => level !== undefined);
+  const h1Count = headingLevels.filter(level => level === 1).length;
+  const h2Count = headingLevels.filter(level => level === 2).length;
+  const hasDocumentTitle = h1Count === 1 && h2Count > 0 && headingLevels[0] === 1;
+  const pageLevels = hasDocumentTitle ? [2] : [1, 2];
+  const plainText = h1Count + h2Count === 0;
+
+  const drafts: PageDraft[] = [];
+  let current: PageDraft | null = null;
+  let fence: string[] | null = null;
+  let previousBlank = true;
+  let skippedPreamble = false;
+
+  const startPage = (title: string): PageDraft => {
+    const draft = { page: { ...createBlankPage(), title }, contentLines: [] };
+    drafts.push(draft);
+    return draft;
+  };
+
+  for (const line of lines) {
+    if (fence) {
+      if (FENCE_PATTERN.test(line)) {
+        const block = fence;
+        fence = null;
+        if (current) {
+          const target = current;
+          target.contentLines.push(...block.filter(entry => entry.trim() && !applyMetadataLine(target.page, entry)));
+        }
+      } else {
+        fence.push(line);
+      }
+      continue;
+    }
+    if (FENCE_PATTERN.test(line)) {
+      fence = [];
+      previousBlank = false;
+      continue;
+    }
+
+    if (!line.trim()) {
+      previousBlank = true;
+      continue;
+    }
+    const startsBlock = previousBlank;
+    previousBlank = false;
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      const level = heading[1].length;
+      if (pageLevels.includes(level) && heading[2]) {
+        current = startPage(heading[2]);
+      } else if (level > 2 && current) {
+        current.contentLines.push(heading[2]);
+      }
+      continue;
+    }
+
+    const quote = line.match(QUOTE_PATTERN);
+    const bullet = line.match(BULLET_PATTERN);
+
+    if (plainText && startsBlock && !quote && !bullet) {
+      current = startPage(line.trim());
+      continue;
+    }
+
+    if (!current) {
+      skippedPreamble = true;
+      continue;
+    }
+    const draft = current;
+
+    if (quote) {
+      const value = quote[1].trim();
+      if (value && !applyMetadataLine(draft.page, value)) {
+        appendField(draft.page, 'visualCue', value);
+      }
+    } else if (bullet) {
+      const depth = Math.floor(bullet[1].replace(/\t/g, '  ').length / 2);
+      draft.contentLines.push(`${'  '.repeat(depth)}・${bullet[2].trim()}`);
+    } else {
+      draft.contentLines.push(line.trim());
+    }
+  }
+
+  if (fence) issues.push('コードブロックが閉じられていないため、末尾のブロックを読み込みませんでした');
+  if (skippedPreamble) issues.push('最初の見出しより前の本文は読み込みませんでした');
+
+  const pages = renumberPages(drafts.map(draft => ({ ...draft.page, content: draft.contentLines.join('\n') })));
+  pages.forEach(page => {
+    if (!page.content) issues.push(`ページ${page.pageNumber}「${page.title}」: 本文がありません`);
+  });
+
+  return { pages, issues };
+};
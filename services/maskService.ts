@@ -0,0 +1,42 @@
+import { createCanvas, loadImage } from "./canvasUtils";
+
+/**
+ * Region masks for edits. A mask is a PNG data URL that is opaque where the edit may apply
+ * and fully transparent elsewhere, at the size of the image being edited.
+ */
+
+/**
+ * White-on-black version of the mask, which is what the model is shown
+ */
+export const maskToModelImage = async (maskUrl: string): Promise<string> => {
+  const mask = await loadImage(maskUrl);
+  const { canvas, ctx } = createCanvas(mask.naturalWidth, mask.naturalHeight);
+  ctx.drawImage(mask, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Take the edited image only inside the mask; every pixel outside it is copied from the original
+ */
+export const compositeMaskedEdit = async (originalUrl: string, editedUrl: string, maskUrl: string): Promise<string> => {
+  const [original, edited, mask] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl), loadImage(maskUrl)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  // The model may return a different resolution; it is scaled onto the original's pixel grid
+  const { canvas: layer, ctx: layerCtx } = createCanvas(width, height);
+  layerCtx.drawImage(edited, 0, 0, width, height);
+  layerCtx.globalCompositeOperation = 'destination-in';
+  layerCtx.drawImage(mask, 0, 0, width, height);
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(original, 0, 0);
+  ctx.drawImage(layer, 0, 0);
+  return canvas.toDataURL('image/png');
+};
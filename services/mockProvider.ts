@@ -0,0 +1,139 @@
+import type { AiProvider, ImageRequest, TextRequest } from "./aiProvider";
+import { createCanvas, loadImage, wrapText } from "./canvasUtils";
+
+/**
+ * Offline backend returning canned outlines and generated placeholder PNGs.
+ * Output is deterministic for a given request so demos and tests are reproducible.
+ */
+
+const MOCK_LATENCY_MS = 400;
+
+const PAGE_SIZES: Record<string, [number, number]> = {
+  '1:1': [1024, 1024],
+  '16:9': [1280, 720],
+  '9:16': [720, 1280]
+};
+
+const CANNED_PAGES = [
+  { title: 'はじめに', visualCue: 'テーマを象徴する大きなアイコンとタイトル', emphasis: 'テーマの重要性', mood: '期待感' },
+  { title: '現状の課題', visualCue: '課題を3つのカードで並べた図解', emphasis: '解決すべき課題', mood: '危機感' },
+  { title: '解決策', visualCue: '課題から解決策へ向かう矢印のフロー図', emphasis: '提案のポイント', mood: '希望' },
+  { title: '期待される効果', visualCue: '右肩上がりのグラフと数値ハイライト', emphasis: '定量的な効果', mood: '信頼感' },
+  { title: '導入ステップ', visualCue: '3段階のタイムライン', emphasis: '具体的な進め方', mood: '安心感' },
+  { title: 'まとめ', visualCue: '要点を3つに絞ったチェックリスト', emphasis: '次のアクション', mood: '前向き' }
+];
+
+const CANNED_SUGGESTIONS = [
+  'タイトルの文字サイズを大きくしてメッセージを明確にする',
+  'アクセントカラーを1色に絞って統一感を出す',
+  '図解の要素数を減らして余白を確保する'
+];
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Simple string hash (djb2) used to derive stable colors
+const hashString = (value: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const buildOutline = (topic: string, count: number) =>
+  Array.from({ length: count }).map((_, index) => {
+    const template = CANNED_PAGES[index % CANNED_PAGES.length];
+    return {
+      pageNumber: index + 1,
+      title: index === 0 ? `${topic.substring(0, 20) || 'プレゼンテーション'}: ${template.title}` : template.title,
+      content: `・${template.title}のポイント1\n・${template.title}のポイント2\n・${template.title}のポイント3`,
+      visualCue: template.visualCue,
+      emphasis: template.emphasis,
+      mood: template.mood,
+      speakerNotes: `ここでは${template.title}についてお話しします。${template.emphasis}を中心に、約1分でご説明します。`
+    };
+  });
+
+const renderPlaceholder = async (request: ImageRequest): Promise<string> => {
+  const source = request.task === 'edit' && request.images?.[0]
+    ? await loadImage(`data:${request.images[0].mimeType};base64,${request.images[0].data}`)
+    : null;
+
+  const [defaultWidth, defaultHeight] = PAGE_SIZES[request.aspectRatio || '16:9'] || PAGE_SIZES['16:9'];
+  const width = source?.naturalWidth || defaultWidth;
+  const height = source?.naturalHeight || defaultHeight;
+
+  const { canvas, ctx } = createCanvas(width, height);
+
+  const hue = hashString(request.prompt) % 360;
+
+  if (source) {
+    ctx.drawImage(source, 0, 0, width, height);
+    // Mark the edit with a banner so versions are distinguishable
+    ctx.fillStyle = `hsla(${hue}, 70%, 35%, 0.85)`;
+    ctx.fillRect(0, height - height * 0.12, width, height * 0.12);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `bold ${Math.round(height * 0.04)}px sans-serif`;
+    ctx.textBaseline = 'middle';
+    const [line] = wrapText(ctx, `MOCK EDIT: ${request.prompt}`, width * 0.9, 1);
+    ctx.fillText(line || '', width * 0.05, height - height * 0.06);
+    return canvas.toDataURL('image/png');
+  }
+
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 65%, 92%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 40) % 360}, 65%, 80%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.strokeStyle = `hsl(${hue}, 50%, 45%)`;
+  ctx.lineWidth = Math.max(4, width * 0.006);
+  ctx.strokeRect(width * 0.04, height * 0.06, width * 0.92, height * 0.88);
+
+  const padding = width * 0.08;
+  ctx.fillStyle = `hsl(${hue}, 60%, 25%)`;
+  ctx.font = `bold ${Math.round(Math.min(width, height) * 0.06)}px sans-serif`;
+  ctx.textBaseline = 'top';
+  ctx.fillText('MOCK SLIDE', padding, height * 0.12);
+
+  ctx.font = `${Math.round(Math.min(width, height) * 0.032)}px sans-serif`;
+  const lines = wrapText(ctx, request.prompt, width - padding * 2, 12);
+  lines.forEach((line, index) => {
+    ctx.fillText(line, padding, height * 0.26 + index * Math.min(width, height) * 0.045);
+  });
+
+  return canvas.toDataURL('image/png');
+};
+
+export const mockProvider: AiProvider = {
+  id: 'mock',
+
+  async generateText(request: TextRequest): Promise<string> {
+    await delay(MOCK_LATENCY_MS);
+    switch (request.task) {
+      case 'outline':
+      case 'outlineRepair': {
+        const topic = String(request.context?.topic ?? '');
+        const count = Number(request.context?.pageCount) || 4;
+        return JSON.stringify(buildOutline(topic, count));
+      }
+      case 'pageRewrite': {
+        const page = (request.context?.page ?? {}) as Record<string, string>;
+        const instruction = String(request.context?.instruction ?? '');
+        return JSON.stringify({
+          ...page,
+          title: `${page.title || ''}（改訂）`,
+          content: `${page.content || ''}\n・${instruction}を反映したポイント`
+        });
+      }
+      case 'suggestions':
+        return JSON.stringify(CANNED_SUGGESTIONS);
+    }
+    return '';
+  },
+
+  async generateImage(request: ImageRequest): Promise<string | null> {
+    await delay(MOCK_LATENCY_MS);
+    return renderPlaceholder(request);
+  }
+};
@@ -0,0 +1,77 @@
+import { PresentationPage } from "../types";
+
+/**
+ * Outline exporters. The CSV and Markdown formats are read back by csvImportService
+ * and markdownImportService, so an exported outline can be edited elsewhere and re-imported.
+ */
+
+export type OutlineExportFormat = 'csv' | 'json' | 'markdown';
+
+export const OUTLINE_EXPORT_FORMATS: Record<OutlineExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' }
+};
+
+// Header labels recognized by the CSV importer's column matching
+const CSV_COLUMNS: Array<{ field: Exclude<keyof PresentationPage, 'id'>; header: string }> = [
+  { field: 'pageNumber', header: 'ページ番号' },
+  { field: 'title', header: 'タイトル' },
+  { field: 'content', header: '内容' },
+  { field: 'visualCue', header: '視覚表現' },
+  { field: 'emphasis', header: '強調ポイント' },
+  { field: 'mood', header: '温度感' },
+  { field: 'speakerNotes', header: 'スピーカーノート' }
+];
+
+const MARKDOWN_METADATA = CSV_COLUMNS.filter(({ field }) =>
+  field === 'visualCue' || field === 'emphasis' || field === 'mood' || field === 'speakerNotes'
+);
+
+const escapeCsvCell = (value: string | number): string => `"${String(value).replace(/"/g, '""')}"`;
+
+/**
+ * CSV with a header row and a UTF-8 BOM so Excel opens Japanese text correctly
+ */
+export const exportOutlineToCsv = (pages: PresentationPage[]): string => {
+  const header = CSV_COLUMNS.map(({ header }) => escapeCsvCell(header)).join(',');
+  const rows = pages.map(page => CSV_COLUMNS.map(({ field }) => escapeCsvCell(page[field])).join(','));
+  return '\uFEFF' + [header, ...rows].join('\r\n') + '\r\n';
+};
+
+export const exportOutlineToJson = (pages: PresentationPage[]): string =>
+  JSON.stringify(pages, null, 2);
+
+/**
+ * Markdown with the topic as H1, one H2 per page, "・" lines as list items and
+ * the remaining fields as "> 項目: 値" blockquotes
+ */
+export const exportOutlineToMarkdown = (pages: PresentationPage[], topic: string): string => {
+  const sections = pages.map(page => {
+    const content = page.content
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => line.replace(/^(\s*)・\s*/, '$1- '));
+    const metadata = MARKDOWN_METADATA.flatMap(({ field, header }) =>
+      String(page[field])
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => `> ${header}: ${line.trim()}`)
+    );
+    return [`## ${page.title || `ページ${page.pageNumber}`}`, '', ...content, ...(metadata.length ? ['', ...metadata] : [])].join('\n');
+  });
+
+  const heading = topic.trim() ? [`# ${topic.trim().split('\n')[0]}`] : [];
+  return [...heading, ...sections].join('\n\n') + '\n';
+};
+
+export const exportOutline = (pages: PresentationPage[], format: OutlineExportFormat, topic: string): string => {
+  switch (format) {
+    case 'csv':
+      return exportOutlineToCsv(pages);
+    case 'json':
+      return exportOutlineToJson(pages);
+    case 'markdown':
+      return exportOutlineToMarkdown(pages, topic);
+  }
+};
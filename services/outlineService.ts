@@ -0,0 +1,198 @@
+import { PresentationPage } from "../types";
+
+/**
+ * Helpers for working with presentation outlines
+ */
+
+export const createPageId = (): string =>
+  `page-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Empty page for manual insertion (pageNumber is assigned by renumberPages)
+ */
+export const createBlankPage = (): PresentationPage => ({
+  id: createPageId(),
+  pageNumber: 0,
+  title: '',
+  content: '',
+  visualCue: '',
+  emphasis: '',
+  mood: '',
+  speakerNotes: ''
+});
+
+/**
+ * Reassign pageNumber from 1 in array order
+ */
+export const renumberPages = (pages: PresentationPage[]): PresentationPage[] =>
+  pages.map((page, index) => page.pageNumber === index + 1 ? page : { ...page, pageNumber: index + 1 });
+
+/**
+ * Move a page to a new position and renumber
+ */
+export const movePage = (pages: PresentationPage[], from: number, to: number): PresentationPage[] => {
+  if (from === to || from < 0 || from >= pages.length) return pages;
+  const next = [...pages];
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, moved);
+  return renumberPages(next);
+};
+
+export type OutlineField = Exclude<keyof PresentationPage, 'id'>;
+
+// Column / metadata names recognized for each field by the importers (lowercase, without spaces)
+const OUTLINE_FIELD_ALIASES: Record<OutlineField, string[]> = {
+  pageNumber: ['スライド番号', 'スライド', 'ページ番号', 'ページ', 'no', 'no.', '#', 'slide', 'page', 'pagenumber', '番号'],
+  title: ['タイトル', '見出し', 'title', 'heading'],
+  content: ['本文', '内容', 'コンテンツ', 'content', 'body', 'text'],
+  visualCue: ['視覚表現', 'ビジュアル', '画像指示', 'visualcue', 'visual'],
+  emphasis: ['強調ポイント', '強調', 'emphasis'],
+  mood: ['温度感', 'トーン', '雰囲気', 'mood', 'tone'],
+  speakerNotes: ['スピーカーノート', 'ノート', '発表者ノート', '原稿', 'speakernotes', 'notes', 'note']
+};
+
+/**
+ * Resolve a column header or metadata key (Japanese or English) to an outline field
+ */
+export const matchOutlineField = (name: string): OutlineField | null => {
+  const normalized = name.trim().toLowerCase().replace(/[\s_-]/g, '');
+  if (!normalized) return null;
+  for (const [field, aliases] of Object.entries(OUTLINE_FIELD_ALIASES)) {
+    if (aliases.includes(normalized)) return field as OutlineField;
+  }
+  return null;
+};
+
+export interface OutlineValidationResult {
+  pages: PresentationPage[]; // Normalized pages (renumbered, defaults filled, trimmed)
+  issues: string[]; // Everything that was wrong with the raw data, including normalized problems
+  needsRepair: boolean; // True if normalization alone can't produce a usable outline
+}
+
+/**
+ * Thrown when an outline is still invalid after the repair round-trip
+ */
+export class OutlineValidationError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(message);
+    this.name = 'OutlineValidationError';
+    this.issues = issues;
+  }
+}
+
+const OPTIONAL_TEXT_FIELDS = ['visualCue', 'emphasis', 'mood'] as const;
+
+// Used when a page leaves these fields empty (model output, CSV/Markdown import, blank pages)
+export const OUTLINE_FIELD_DEFAULTS: Record<typeof OPTIONAL_TEXT_FIELDS[number], string> = {
+  visualCue: 'スライドの内容を効果的に伝える、プロフェッショナルなビジュアルや図解を自動的に生成してください。',
+  emphasis: '内容の要点を視覚的に強調する',
+  mood: '信頼感のある'
+};
+
+const asText = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : (typeof value === 'number' ? String(value) : '');
+
+/**
+ * Parse a model response as JSON, tolerating Markdown code fences around it
+ */
+export const parseJsonResponse = (text: string): unknown => {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return JSON.parse(fenced ? fenced[1] : text);
+};
+
+/**
+ * Validate raw outline data against PresentationPage[] and normalize it.
+ * Pages are ordered by pageNumber when those are unique, then renumbered from 1.
+ */
+export const validateOutline = (raw: unknown, pageCount?: number): OutlineValidationResult => {
+  const issues: string[] = [];
+
+  const list = Array.isArray(raw)
+    ? raw
+    : (Array.isArray((raw as any)?.pages) ? (raw as any).pages : null);
+  if (!list) {
+    return { pages: [], issues: ['応答がページの配列ではありません'], needsRepair: true };
+  }
+  if (!Array.isArray(raw)) {
+    issues.push('ページ配列が "pages" プロパティに入っていました');
+  }
+
+  let needsRepair = false;
+  const entries = list
+    .map((item: unknown, index: number) => ({ item, index }))
+    .filter(({ item, index }: { item: unknown; index: number }) => {
+      if (item && typeof item === 'object' && !Array.isArray(item)) return true;
+      issues.push(`${index + 1}番目の要素がオブジェクトではないため除外しました`);
+      return false;
+    }) as Array<{ item: Record<string, unknown>; index: number }>;
+
+  const numbers = entries.map(({ item }) => Number(item.pageNumber));
+  const numbersUsable = numbers.every(n => Number.isInteger(n) && n > 0) && new Set(numbers).size === numbers.length;
+  const ordered = numbersUsable
+    ? [...entries].sort((a, b) => Number(a.item.pageNumber) - Number(b.item.pageNumber))
+    : entries;
+  if (!numbersUsable && entries.length > 0) {
+    issues.push('pageNumber が欠落・重複しているため配列の順で振り直しました');
+  } else if (ordered.some(({ item }, i) => Number(item.pageNumber) !== i + 1)) {
+    issues.push('pageNumber が連番でないため振り直しました');
+  } else if (ordered.some((entry, i) => entry !== entries[i])) {
+    issues.push('pageNumber の順に並べ替えました');
+  }
+
+  let kept = ordered;
+  if (pageCount !== undefined && ordered.length > pageCount) {
+    issues.push(`ページ数が${ordered.length}枚あったため${pageCount}枚に切り詰めました`);
+    kept = ordered.slice(0, pageCount);
+  }
+
+  const pages = kept.map(({ item }, position) => {
+    const label = `ページ${position + 1}`;
+    const title = asText(item.title);
+    const content = asText(item.content);
+    if (!title) {
+      issues.push(`${label}: title がありません`);
+      needsRepair = true;
+    }
+    if (!content) {
+      issues.push(`${label}: content がありません`);
+      needsRepair = true;
+    }
+    const optional = Object.fromEntries(OPTIONAL_TEXT_FIELDS.map(field => {
+      const value = asText(item[field]);
+      if (!value) issues.push(`${label}: ${field} が空のため既定値を使用します`);
+      return [field, value || OUTLINE_FIELD_DEFAULTS[field]];
+    })) as Record<typeof OPTIONAL_TEXT_FIELDS[number], string>;
+
+    const speakerNotes = asText(item.speakerNotes);
+    if (!speakerNotes) issues.push(`${label}: speakerNotes がありません`);
+
+    return {
+      id: typeof item.id === 'string' && item.id ? item.id : createPageId(),
+      pageNumber: position + 1,
+      title,
+      content,
+      ...optional,
+      speakerNotes
+    };
+  });
+
+  if (pageCount !== undefined && pages.length < pageCount) {
+    issues.push(`ページ数が${pageCount}枚の指定に対して${pages.length}枚しかありません`);
+    needsRepair = true;
+  }
+  if (pages.length === 0) {
+    needsRepair = true;
+  }
+
+  return { pages, issues, needsRepair };
+};
+
+/**
+ * Plain-text speaker notes for the whole deck (one section per page)
+ */
+export const formatSpeakerNotes = (pages: PresentationPage[]): string =>
+  pages
+    .map(page => `【ページ ${page.pageNumber}】${page.title}\n${page.speakerNotes || '（ノートなし）'}`)
+    .join('\n\n');
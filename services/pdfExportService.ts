@@ -0,0 +1,250 @@
+import { createCanvas, loadImage, wrapText } from "./canvasUtils";
+import { dataUrlToBytes } from "./zipWriter";
+
+/**
+ * Client-side multi-page PDF writer.
+ * Slides are embedded as JPEG images, one per page sized to the image's aspect ratio.
+ * Handout pages (A4 portrait, N slides per page with outline text) are laid out on a canvas
+ * first so Japanese text renders with the browser's fonts without embedding a CJK font.
+ */
+
+export interface PdfSlide {
+  imageUrl: string;
+  title: string;
+  text: string; // outline text shown next to the slide on handout pages
+}
+
+export interface PdfMetadata {
+  title: string;
+  subject?: string;
+  keywords?: string;
+}
+
+export interface PdfOptions {
+  slidesPerPage: number; // 0 = one full-bleed slide per page, otherwise handout layout
+  metadata: PdfMetadata;
+}
+
+export const HANDOUT_LAYOUTS: Array<{ value: number; label: string }> = [
+  { value: 0, label: 'スライド (1枚/ページ)' },
+  { value: 1, label: '配布資料 1枚/ページ' },
+  { value: 2, label: '配布資料 2枚/ページ' },
+  { value: 3, label: '配布資料 3枚/ページ' },
+  { value: 4, label: '配布資料 4枚/ページ' },
+  { value: 6, label: '配布資料 6枚/ページ' }
+];
+
+// Long side of a slide page in points (16:9 → 960 x 540)
+const SLIDE_PAGE_LONG_SIDE = 960;
+const A4: [number, number] = [595.28, 841.89];
+const HANDOUT_SCALE = 2; // canvas pixels per point
+const JPEG_QUALITY = 0.92;
+
+interface PdfPage {
+  width: number;
+  height: number;
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+}
+
+const toJpeg = (canvas: HTMLCanvasElement): Uint8Array =>
+  dataUrlToBytes(canvas.toDataURL('image/jpeg', JPEG_QUALITY)).bytes;
+
+const renderSlidePage = async (slide: PdfSlide): Promise<PdfPage> => {
+  const image = await loadImage(slide.imageUrl);
+  const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+  // JPEG has no alpha channel
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0);
+
+  const scale = SLIDE_PAGE_LONG_SIDE / Math.max(image.naturalWidth, image.naturalHeight);
+  return {
+    width: image.naturalWidth * scale,
+    height: image.naturalHeight * scale,
+    jpeg: toJpeg(canvas),
+    pixelWidth: canvas.width,
+    pixelHeight: canvas.height
+  };
+};
+
+const drawContained = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, x: number, y: number, width: number, height: number) => {
+  const scale = Math.min(width / image.naturalWidth, height / image.naturalHeight);
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  const left = x + (width - drawWidth) / 2;
+  const top = y + (height - drawHeight) / 2;
+  ctx.drawImage(image, left, top, drawWidth, drawHeight);
+  ctx.strokeStyle = '#d1d5db';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(left, top, drawWidth, drawHeight);
+};
+
+const drawTextBlock = (ctx: CanvasRenderingContext2D, slide: PdfSlide, x: number, y: number, width: number, height: number) => {
+  const titleSize = 11 * HANDOUT_SCALE;
+  const bodySize = 8.5 * HANDOUT_SCALE;
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#111827';
+  ctx.font = `bold ${titleSize}px sans-serif`;
+  const titleLines = wrapText(ctx, slide.title, width, 2);
+  titleLines.forEach((line, index) => ctx.fillText(line, x, y + index * titleSize * 1.3));
+
+  const bodyTop = y + titleLines.length * titleSize * 1.3 + bodySize * 0.6;
+  const maxLines = Math.max(0, Math.floor((y + height - bodyTop) / (bodySize * 1.4)));
+  ctx.fillStyle = '#374151';
+  ctx.font = `${bodySize}px sans-serif`;
+  wrapText(ctx, slide.text, width, maxLines).forEach((line, index) => ctx.fillText(line, x, bodyTop + index * bodySize * 1.4));
+};
+
+const renderHandoutPage = async (slides: PdfSlide[], slidesPerPage: number, pageIndex: number, pageCount: number): Promise<PdfPage> => {
+  const [width, height] = A4;
+  const { canvas, ctx } = createCanvas(Math.round(width * HANDOUT_SCALE), Math.round(height * HANDOUT_SCALE));
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const margin = 36 * HANDOUT_SCALE;
+  const gap = 18 * HANDOUT_SCALE;
+  const footer = 18 * HANDOUT_SCALE;
+  const innerWidth = canvas.width - margin * 2;
+  const innerHeight = canvas.height - margin * 2 - footer;
+  const images = await Promise.all(slides.map(slide => loadImage(slide.imageUrl)));
+
+  if (slidesPerPage <= 3) {
+    // One slide per row: image on the left, outline text on the right
+    const rowHeight = (innerHeight - gap * (slidesPerPage - 1)) / slidesPerPage;
+    const imageWidth = slidesPerPage === 1 ? innerWidth : innerWidth * 0.55;
+    const imageHeight = slidesPerPage === 1 ? rowHeight * 0.55 : rowHeight;
+    slides.forEach((slide, index) => {
+      const top = margin + index * (rowHeight + gap);
+      drawContained(ctx, images[index], margin, top, imageWidth, imageHeight);
+      if (slidesPerPage === 1) {
+        drawTextBlock(ctx, slide, margin, top + imageHeight + gap, innerWidth, rowHeight - imageHeight - gap);
+      } else {
+        drawTextBlock(ctx, slide, margin + imageWidth + gap, top, innerWidth - imageWidth - gap, rowHeight);
+      }
+    });
+  } else {
+    // Two columns: image with its title and outline text underneath
+    const rows = Math.ceil(slidesPerPage / 2);
+    const cellWidth = (innerWidth - gap) / 2;
+    const cellHeight = (innerHeight - gap * (rows - 1)) / rows;
+    const imageHeight = cellHeight * 0.62;
+    slides.forEach((slide, index) => {
+      const left = margin + (index % 2) * (cellWidth + gap);
+      const top = margin + Math.floor(index / 2) * (cellHeight + gap);
+      drawContained(ctx, images[index], left, top, cellWidth, imageHeight);
+      drawTextBlock(ctx, slide, left, top + imageHeight + gap / 2, cellWidth, cellHeight - imageHeight - gap / 2);
+    });
+  }
+
+  ctx.fillStyle = '#9ca3af';
+  ctx.font = `${8 * HANDOUT_SCALE}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.fillText(`${pageIndex + 1} / ${pageCount}`, canvas.width / 2, canvas.height - margin);
+
+  return { width, height, jpeg: toJpeg(canvas), pixelWidth: canvas.width, pixelHeight: canvas.height };
+};
+
+// PDF text string: UTF-16BE with BOM as hex so Japanese metadata survives
+const pdfString = (value: string): string => {
+  let hex = 'FEFF';
+  for (let i = 0; i < value.length; i++) {
+    hex += value.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+};
+
+const pdfDate = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `(D:${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())})`;
+};
+
+const format = (n: number) => Number(n.toFixed(2)).toString();
+
+const writePdf = (pages: PdfPage[], metadata: PdfMetadata): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const push = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    push(`${id} 0 obj\n`);
+  };
+
+  // Object layout: 1 catalog, 2 page tree, 3 info, then page / contents / image per page
+  const pageObjectId = (index: number) => 4 + index * 3;
+
+  push('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+  beginObject(1);
+  push('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  push(`<< /Type /Pages /Count ${pages.length} /Kids [${pages.map((_, index) => `${pageObjectId(index)} 0 R`).join(' ')}] >>\nendobj\n`);
+
+  const now = new Date();
+  const info = [
+    `/Title ${pdfString(metadata.title)}`,
+    metadata.subject ? `/Subject ${pdfString(metadata.subject)}` : '',
+    metadata.keywords ? `/Keywords ${pdfString(metadata.keywords)}` : '',
+    `/Creator ${pdfString('InfographAI')}`,
+    `/Producer ${pdfString('InfographAI')}`,
+    `/CreationDate ${pdfDate(now)}`
+  ].filter(Boolean).join(' ');
+  beginObject(3);
+  push(`<< ${info} >>\nendobj\n`);
+
+  pages.forEach((page, index) => {
+    const pageId = pageObjectId(index);
+    const contentId = pageId + 1;
+    const imageId = pageId + 2;
+    const content = `q ${format(page.width)} 0 0 ${format(page.height)} 0 0 cm /Im0 Do Q`;
+
+    beginObject(pageId);
+    push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${format(page.width)} ${format(page.height)}] /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+
+    beginObject(contentId);
+    push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    beginObject(imageId);
+    push(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    push(page.jpeg);
+    push('\nendstream\nendobj\n');
+  });
+
+  const objectCount = 4 + pages.length * 3;
+  const xrefOffset = length;
+  push(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    push(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  push(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
+
+/**
+ * Build a PDF from slides in order, either one slide per page or as handouts
+ */
+export const createPdf = async (slides: PdfSlide[], options: PdfOptions): Promise<Blob> => {
+  const pages: PdfPage[] = [];
+  if (options.slidesPerPage > 0) {
+    const pageCount = Math.ceil(slides.length / options.slidesPerPage);
+    for (let index = 0; index < pageCount; index++) {
+      const group = slides.slice(index * options.slidesPerPage, (index + 1) * options.slidesPerPage);
+      pages.push(await renderHandoutPage(group, options.slidesPerPage, index, pageCount));
+    }
+  } else {
+    for (const slide of slides) {
+      pages.push(await renderSlidePage(slide));
+    }
+  }
+  return writePdf(pages, options.metadata);
+};
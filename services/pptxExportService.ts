@@ -0,0 +1,209 @@
+import { ImageAspect } from "../types";
+import { ZipEntry, createZip, dataUrlToBytes } from "./zipWriter";
+
+/**
+ * Client-side PowerPoint (.pptx) writer.
+ * Each slide gets its image full-bleed plus a title placeholder behind it, so titles
+ * show up in the outline view, screen readers and search while the slide looks like the image.
+ */
+
+export interface PptxSlide {
+  title: string;
+  imageUrl: string; // data URL
+  notes: string;
+}
+
+export interface PptxOptions {
+  title: string;
+  aspectRatio: ImageAspect;
+}
+
+// Slide sizes in EMU (1 inch = 914400 EMU)
+const SLIDE_SIZES: Record<ImageAspect, [number, number]> = {
+  [ImageAspect.LANDSCAPE]: [12192000, 6858000],
+  [ImageAspect.SQUARE]: [6858000, 6858000],
+  [ImageAspect.PORTRAIT]: [6858000, 12192000]
+};
+
+const NOTES_SIZE: [number, number] = [6858000, 9144000];
+
+const NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const CT = 'application/vnd.openxmlformats-officedocument.presentationml';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/webp': 'webp'
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+const relationships = (rels: Array<{ id: string; type: string; target: string }>): string =>
+  `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${rels
+    .map(rel => `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${rel.target}"/>`)
+    .join('')}</Relationships>`;
+
+const paragraphs = (text: string): string =>
+  text
+    .split('\n')
+    .map(line => line.trim()
+      ? `<a:p><a:r><a:rPr lang="ja-JP" dirty="0"/><a:t>${escapeXml(line)}</a:t></a:r></a:p>`
+      : '<a:p><a:endParaRPr lang="ja-JP" dirty="0"/></a:p>')
+    .join('') || '<a:p><a:endParaRPr lang="ja-JP" dirty="0"/></a:p>';
+
+const GROUP_PROPS = '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+
+const xfrm = (x: number, y: number, cx: number, cy: number) =>
+  `<a:xfrm><a:off x="${Math.round(x)}" y="${Math.round(y)}"/><a:ext cx="${Math.round(cx)}" cy="${Math.round(cy)}"/></a:xfrm>`;
+
+const placeholder = (id: number, name: string, ph: string, position: string, body = '') =>
+  `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${name}"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr>${ph}</p:nvPr></p:nvSpPr><p:spPr>${position}</p:spPr>${body}</p:sp>`;
+
+const THEME_XML = `${XML_HEADER}<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="InfographAI"><a:themeElements>
+<a:clrScheme name="InfographAI"><a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1><a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1><a:dk2><a:srgbClr val="1F2937"/></a:dk2><a:lt2><a:srgbClr val="F3F4F6"/></a:lt2><a:accent1><a:srgbClr val="7C3AED"/></a:accent1><a:accent2><a:srgbClr val="2563EB"/></a:accent2><a:accent3><a:srgbClr val="059669"/></a:accent3><a:accent4><a:srgbClr val="D97706"/></a:accent4><a:accent5><a:srgbClr val="DC2626"/></a:accent5><a:accent6><a:srgbClr val="0891B2"/></a:accent6><a:hlink><a:srgbClr val="2563EB"/></a:hlink><a:folHlink><a:srgbClr val="7C3AED"/></a:folHlink></a:clrScheme>
+<a:fontScheme name="InfographAI"><a:majorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/><a:font script="Jpan" typeface="Yu Gothic"/></a:majorFont><a:minorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/><a:font script="Jpan" typeface="Yu Gothic"/></a:minorFont></a:fontScheme>
+<a:fmtScheme name="InfographAI"><a:fillStyleLst><a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:fillStyleLst><a:lnStyleLst><a:ln w="6350"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln><a:ln w="12700"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln><a:ln w="19050"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln></a:lnStyleLst><a:effectStyleLst><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle></a:effectStyleLst><a:bgFillStyleLst><a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:bgFillStyleLst></a:fmtScheme>
+</a:themeElements><a:objectDefaults/><a:extraClrSchemeLst/></a:theme>`;
+
+const CLR_MAP = '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>';
+
+const TEXT_LEVEL = '<a:lvl1pPr><a:defRPr sz="1800"><a:solidFill><a:schemeClr val="tx1"/></a:solidFill><a:latin typeface="+mn-lt"/><a:ea typeface="+mn-ea"/></a:defRPr></a:lvl1pPr>';
+
+const slideMasterXml = (width: number, height: number) =>
+  `${XML_HEADER}<p:sldMaster ${NS}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${GROUP_PROPS}${placeholder(
+    2, 'Title Placeholder 1', '<p:ph type="title"/>', xfrm(width * 0.05, height * 0.04, width * 0.9, height * 0.15),
+    '<p:txBody><a:bodyPr anchor="ctr"/><a:lstStyle/><a:p><a:endParaRPr lang="ja-JP"/></a:p></p:txBody>'
+  )}</p:spTree></p:cSld>${CLR_MAP}<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst><p:txStyles><p:titleStyle><a:lvl1pPr><a:defRPr sz="3600"><a:solidFill><a:schemeClr val="tx1"/></a:solidFill><a:latin typeface="+mj-lt"/><a:ea typeface="+mj-ea"/></a:defRPr></a:lvl1pPr></p:titleStyle><p:bodyStyle>${TEXT_LEVEL}</p:bodyStyle><p:otherStyle>${TEXT_LEVEL}</p:otherStyle></p:txStyles></p:sldMaster>`;
+
+const SLIDE_LAYOUT_XML = `${XML_HEADER}<p:sldLayout ${NS} type="titleOnly" preserve="1"><p:cSld name="Title Only"><p:spTree>${GROUP_PROPS}${placeholder(
+  2, 'Title 1', '<p:ph type="title"/>', '',
+  '<p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:endParaRPr lang="ja-JP"/></a:p></p:txBody>'
+)}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>`;
+
+const notesMasterXml = () => {
+  const [width, height] = NOTES_SIZE;
+  return `${XML_HEADER}<p:notesMaster ${NS}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${GROUP_PROPS}${placeholder(
+    2, 'Slide Image Placeholder 1', '<p:ph type="sldImg" idx="2"/>', xfrm(width * 0.1, height * 0.08, width * 0.8, height * 0.36)
+  )}${placeholder(
+    3, 'Notes Placeholder 2', '<p:ph type="body" sz="quarter" idx="1"/>', xfrm(width * 0.1, height * 0.48, width * 0.8, height * 0.42),
+    '<p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:endParaRPr lang="ja-JP"/></a:p></p:txBody>'
+  )}</p:spTree></p:cSld>${CLR_MAP}<p:notesStyle>${TEXT_LEVEL.replace('1800', '1200')}</p:notesStyle></p:notesMaster>`;
+};
+
+const slideXml = (slide: PptxSlide, width: number, height: number) =>
+  `${XML_HEADER}<p:sld ${NS}><p:cSld><p:spTree>${GROUP_PROPS}${placeholder(
+    2, 'Title 1', '<p:ph type="title"/>', '',
+    `<p:txBody><a:bodyPr/><a:lstStyle/>${paragraphs(slide.title)}</p:txBody>`
+  )}<p:pic><p:nvPicPr><p:cNvPr id="3" name="Slide Image" descr="${escapeXml(slide.title)}"/><p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr><p:blipFill><a:blip r:embed="rId2"/><a:stretch><a:fillRect/></a:stretch></p:blipFill><p:spPr>${xfrm(0, 0, width, height)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic></p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`;
+
+const notesSlideXml = (notes: string) =>
+  `${XML_HEADER}<p:notes ${NS}><p:cSld><p:spTree>${GROUP_PROPS}<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr><p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr><p:spPr/></p:sp>${placeholder(
+    3, 'Notes Placeholder 2', '<p:ph type="body" idx="1"/>', '',
+    `<p:txBody><a:bodyPr/><a:lstStyle/>${paragraphs(notes)}</p:txBody>`
+  )}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>`;
+
+const corePropsXml = (title: string, now: string) =>
+  `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(title)}</dc:title><dc:creator>InfographAI</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified></cp:coreProperties>`;
+
+const appPropsXml = (slideCount: number) =>
+  `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>InfographAI</Application><Slides>${slideCount}</Slides><Notes>${slideCount}</Notes></Properties>`;
+
+/**
+ * Build a .pptx file with one full-bleed image slide per entry, in order
+ */
+export const createPptx = (slides: PptxSlide[], options: PptxOptions): Blob => {
+  const [width, height] = SLIDE_SIZES[options.aspectRatio] || SLIDE_SIZES[ImageAspect.LANDSCAPE];
+  const files: ZipEntry[] = [];
+  const imageExtensions = new Set<string>();
+
+  const slideEntries = slides.map((slide, index) => {
+    const number = index + 1;
+    const { bytes, mimeType } = dataUrlToBytes(slide.imageUrl);
+    const extension = IMAGE_EXTENSIONS[mimeType] || 'png';
+    imageExtensions.add(extension);
+    const media = `image${number}.${extension}`;
+
+    files.push(
+      { name: `ppt/slides/slide${number}.xml`, data: slideXml(slide, width, height) },
+      { name: `ppt/slides/_rels/slide${number}.xml.rels`, data: relationships([
+        { id: 'rId1', type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+        { id: 'rId2', type: `${REL}/image`, target: `../media/${media}` },
+        { id: 'rId3', type: `${REL}/notesSlide`, target: `../notesSlides/notesSlide${number}.xml` }
+      ]) },
+      { name: `ppt/notesSlides/notesSlide${number}.xml`, data: notesSlideXml(slide.notes) },
+      { name: `ppt/notesSlides/_rels/notesSlide${number}.xml.rels`, data: relationships([
+        { id: 'rId1', type: `${REL}/notesMaster`, target: '../notesMasters/notesMaster1.xml' },
+        { id: 'rId2', type: `${REL}/slide`, target: `../slides/slide${number}.xml` }
+      ]) },
+      { name: `ppt/media/${media}`, data: bytes }
+    );
+    return number;
+  });
+
+  const contentTypes = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>${[...imageExtensions]
+    .map(extension => `<Default Extension="${extension}" ContentType="image/${extension}"/>`)
+    .join('')}<Override PartName="/ppt/presentation.xml" ContentType="${CT}.presentation.main+xml"/><Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="${CT}.slideMaster+xml"/><Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="${CT}.slideLayout+xml"/><Override PartName="/ppt/notesMasters/notesMaster1.xml" ContentType="${CT}.notesMaster+xml"/><Override PartName="/ppt/theme/theme1.xml" ContentType="application/vnd.openxmlformats-officedocument.theme+xml"/><Override PartName="/ppt/theme/theme2.xml" ContentType="application/vnd.openxmlformats-officedocument.theme+xml"/><Override PartName="/ppt/presProps.xml" ContentType="${CT}.presProps+xml"/><Override PartName="/ppt/viewProps.xml" ContentType="${CT}.viewProps+xml"/><Override PartName="/ppt/tableStyles.xml" ContentType="${CT}.tableStyles+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/><Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>${slideEntries
+    .map(number => `<Override PartName="/ppt/slides/slide${number}.xml" ContentType="${CT}.slide+xml"/><Override PartName="/ppt/notesSlides/notesSlide${number}.xml" ContentType="${CT}.notesSlide+xml"/>`)
+    .join('')}</Types>`;
+
+  // Presentation relationships: master, notes master, slides, then shared parts
+  const slideRelId = (number: number) => `rId${number + 2}`;
+  const sharedOffset = slides.length + 3;
+  const presentationXml = `${XML_HEADER}<p:presentation ${NS} saveSubsetFonts="1"><p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst><p:notesMasterIdLst><p:notesMasterId r:id="rId2"/></p:notesMasterIdLst><p:sldIdLst>${slideEntries
+    .map(number => `<p:sldId id="${255 + number}" r:id="${slideRelId(number)}"/>`)
+    .join('')}</p:sldIdLst><p:sldSz cx="${width}" cy="${height}"/><p:notesSz cx="${NOTES_SIZE[0]}" cy="${NOTES_SIZE[1]}"/></p:presentation>`;
+
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  files.unshift(
+    { name: '[Content_Types].xml', data: contentTypes },
+    { name: '_rels/.rels', data: relationships([
+      { id: 'rId1', type: `${REL}/officeDocument`, target: 'ppt/presentation.xml' },
+      { id: 'rId2', type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', target: 'docProps/core.xml' },
+      { id: 'rId3', type: `${REL}/extended-properties`, target: 'docProps/app.xml' }
+    ]) },
+    { name: 'docProps/core.xml', data: corePropsXml(options.title, now) },
+    { name: 'docProps/app.xml', data: appPropsXml(slides.length) },
+    { name: 'ppt/presentation.xml', data: presentationXml },
+    { name: 'ppt/_rels/presentation.xml.rels', data: relationships([
+      { id: 'rId1', type: `${REL}/slideMaster`, target: 'slideMasters/slideMaster1.xml' },
+      { id: 'rId2', type: `${REL}/notesMaster`, target: 'notesMasters/notesMaster1.xml' },
+      ...slideEntries.map(number => ({ id: slideRelId(number), type: `${REL}/slide`, target: `slides/slide${number}.xml` })),
+      { id: `rId${sharedOffset}`, type: `${REL}/theme`, target: 'theme/theme1.xml' },
+      { id: `rId${sharedOffset + 1}`, type: `${REL}/presProps`, target: 'presProps.xml' },
+      { id: `rId${sharedOffset + 2}`, type: `${REL}/viewProps`, target: 'viewProps.xml' },
+      { id: `rId${sharedOffset + 3}`, type: `${REL}/tableStyles`, target: 'tableStyles.xml' }
+    ]) },
+    { name: 'ppt/slideMasters/slideMaster1.xml', data: slideMasterXml(width, height) },
+    { name: 'ppt/slideMasters/_rels/slideMaster1.xml.rels', data: relationships([
+      { id: 'rId1', type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+      { id: 'rId2', type: `${REL}/theme`, target: '../theme/theme1.xml' }
+    ]) },
+    { name: 'ppt/slideLayouts/slideLayout1.xml', data: SLIDE_LAYOUT_XML },
+    { name: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels', data: relationships([
+      { id: 'rId1', type: `${REL}/slideMaster`, target: '../slideMasters/slideMaster1.xml' }
+    ]) },
+    { name: 'ppt/notesMasters/notesMaster1.xml', data: notesMasterXml() },
+    { name: 'ppt/notesMasters/_rels/notesMaster1.xml.rels', data: relationships([
+      { id: 'rId1', type: `${REL}/theme`, target: '../theme/theme2.xml' }
+    ]) },
+    { name: 'ppt/theme/theme1.xml', data: THEME_XML },
+    { name: 'ppt/theme/theme2.xml', data: THEME_XML },
+    { name: 'ppt/presProps.xml', data: `${XML_HEADER}<p:presentationPr ${NS}/>` },
+    { name: 'ppt/viewProps.xml', data: `${XML_HEADER}<p:viewPr ${NS}><p:gridSpacing cx="76200" cy="76200"/></p:viewPr>` },
+    { name: 'ppt/tableStyles.xml', data: `${XML_HEADER}<a:tblStyleLst xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>` }
+  );
+
+  return new Blob([createZip(files)], {
+    type: 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+  });
+};
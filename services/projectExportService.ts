@@ -0,0 +1,89 @@
+import { AppMode, AppState, GeneratedImage, PresentationPage, PromptTemplateId } from "../types";
+import { getActiveProviderId } from "./aiProvider";
+import { exportOutlineToCsv, exportOutlineToJson } from "./outlineExportService";
+import { formatSpeakerNotes } from "./outlineService";
+import { getTemplateVersion } from "./promptTemplates";
+import { ZipEntry, createZip, dataUrlToBytes } from "./zipWriter";
+
+/**
+ * ZIP bundle of a whole project: images, outline, prompts and a manifest of the generation settings
+ */
+
+export interface ProjectExportImage {
+  image: GeneratedImage;
+  name: string; // file name, same scheme as the Google Drive upload
+  page?: PresentationPage;
+}
+
+const MANIFEST_VERSION = 1;
+
+const extensionFor = (mimeType: string) => mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+
+export const createProjectZip = (state: AppState, images: ProjectExportImage[], folderName: string): Blob => {
+  const root = `${folderName}/`;
+  const entries: ZipEntry[] = images.map(({ image, name }) => ({
+    name: `${root}images/${name}`,
+    data: dataUrlToBytes(image.url).bytes
+  }));
+
+  const isPresentation = state.mode === AppMode.PRESENTATION;
+  if (isPresentation && state.presentationOutline.length > 0) {
+    entries.push(
+      { name: `${root}構成.csv`, data: exportOutlineToCsv(state.presentationOutline) },
+      { name: `${root}構成.json`, data: exportOutlineToJson(state.presentationOutline) }
+    );
+    if (state.presentationOutline.some(page => page.speakerNotes)) {
+      entries.push({ name: `${root}スピーカーノート.txt`, data: formatSpeakerNotes(state.presentationOutline) });
+    }
+  }
+
+  let referenceFile: string | null = null;
+  if (state.referenceImage) {
+    const { bytes, mimeType } = dataUrlToBytes(state.referenceImage);
+    referenceFile = `参考画像.${extensionFor(mimeType)}`;
+    entries.push({ name: `${root}${referenceFile}`, data: bytes });
+  }
+
+  const prompts = images.map(({ image, name, page }) => ({
+    file: `images/${name}`,
+    pageNumber: page?.pageNumber,
+    title: page?.title,
+    templateVersion: image.templateVersion,
+    prompt: image.promptUsed
+  }));
+  entries.push({ name: `${root}prompts.json`, data: JSON.stringify(prompts, null, 2) });
+
+  const manifest = {
+    manifestVersion: MANIFEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    provider: getActiveProviderId(),
+    mode: state.mode,
+    prompt: state.prompt,
+    settings: {
+      complexity: state.complexity,
+      stylePreferences: state.stylePreferences,
+      aspectRatio: state.aspectRatio,
+      imageSize: state.imageSize,
+      language: state.language,
+      imageCount: state.imageCount,
+      ...(isPresentation
+        ? { talkDurationMinutes: state.talkDurationMinutes }
+        : { isAnimationMode: state.isAnimationMode, isSequentialAnimation: state.isSequentialAnimation })
+    },
+    referenceImage: referenceFile,
+    promptTemplates: Object.fromEntries(
+      (Object.keys(state.promptOverrides) as PromptTemplateId[]).map(id => [id, {
+        version: getTemplateVersion(id, state.promptOverrides),
+        body: state.promptOverrides[id]?.body
+      }])
+    ),
+    files: {
+      images: images.map(({ name }) => `images/${name}`),
+      outline: isPresentation && state.presentationOutline.length > 0 ? ['構成.csv', '構成.json'] : [],
+      prompts: 'prompts.json'
+    }
+  };
+  entries.push({ name: `${root}manifest.json`, data: JSON.stringify(manifest, null, 2) });
+
+  return createZip(entries);
+};
@@ -0,0 +1,235 @@
+import { AppMode, AppState, GeneratedImage } from "../types";
+import { createCanvas, loadImage } from "./canvasUtils";
+
+/**
+ * Projects are persisted in IndexedDB so a reload does not lose paid generations.
+ * The project record holds the AppState with image URLs stripped; each image is stored once
+ * in its own record, so autosaves only write images that are new since the last save.
+ */
+
+const DB_NAME = 'infographai';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+const IMAGE_STORE = 'images';
+const LAST_PROJECT_KEY = 'infographai.lastProjectId';
+const THUMBNAIL_WIDTH = 320;
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  mode: AppMode;
+  createdAt: number; // Epoch ms
+  updatedAt: number;
+  slideCount: number;
+  thumbnail: string | null; // Small JPEG data URL of the first slide
+}
+
+interface StoredProject extends ProjectSummary {
+  thumbnailSourceId: string | null; // Image the thumbnail was made from, to skip re-encoding
+  state: AppState;
+}
+
+interface StoredImage {
+  projectId: string;
+  id: string;
+  url: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        db.createObjectStore(IMAGE_STORE, { keyPath: ['projectId', 'id'] });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('保存が中断されました'));
+  });
+
+const projectImages = (projectId: string) => IDBKeyRange.bound([projectId, ''], [projectId, '\uffff']);
+
+export const createProjectId = (): string =>
+  `project-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getLastProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastProjectId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(LAST_PROJECT_KEY, id);
+    else localStorage.removeItem(LAST_PROJECT_KEY);
+  } catch (e) {
+    console.error('Failed to remember the last project', e);
+  }
+};
+
+// Nothing typed or generated yet: not worth a library entry
+export const isEmptyProject = (state: AppState): boolean =>
+  !state.prompt.trim() && state.generatedImages.length === 0 && state.presentationOutline.length === 0;
+
+// Decks use the image of the first page; single slides the selected (or first) variation
+const coverImage = (state: AppState): GeneratedImage | null => {
+  if (state.mode === AppMode.PRESENTATION) {
+    const firstPage = state.presentationOutline.find(page => state.generatedImages.some(img => img.pageId === page.id));
+    if (firstPage) return state.generatedImages.find(img => img.pageId === firstPage.id) ?? null;
+  }
+  return state.generatedImages.find(img => img.id === state.selectedImageId) ?? state.generatedImages[0] ?? null;
+};
+
+const createThumbnail = async (url: string): Promise<string> => {
+  const image = await loadImage(url);
+  const height = Math.round(image.naturalHeight * THUMBNAIL_WIDTH / image.naturalWidth);
+  const { canvas, ctx } = createCanvas(THUMBNAIL_WIDTH, height);
+  ctx.drawImage(image, 0, 0, THUMBNAIL_WIDTH, height);
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+const withoutUrl = (image: GeneratedImage): GeneratedImage => ({ ...image, url: '' });
+
+const writeProject = async (id: string, name: string, state: AppState): Promise<void> => {
+  const db = await openDb();
+  const existing = await requestResult(db.transaction(PROJECT_STORE).objectStore(PROJECT_STORE).get(id)) as StoredProject | undefined;
+
+  const cover = coverImage(state);
+  const thumbnail = !cover
+    ? null
+    : existing?.thumbnailSourceId === cover.id
+      ? existing.thumbnail
+      : await createThumbnail(cover.url).catch(error => {
+        console.error('Thumbnail failed', error);
+        return null;
+      });
+
+  const record: StoredProject = {
+    id,
+    name,
+    mode: state.mode,
+    createdAt: existing?.createdAt ?? Date.now(),
+    updatedAt: Date.now(),
+    slideCount: state.generatedImages.length,
+    thumbnail,
+    thumbnailSourceId: cover?.id ?? null,
+    state: {
+      ...state,
+      generatedImages: state.generatedImages.map(withoutUrl),
+      imageVersions: state.imageVersions.map(withoutUrl)
+    }
+  };
+
+  const images = [...state.generatedImages, ...state.imageVersions];
+  const tx = db.transaction([PROJECT_STORE, IMAGE_STORE], 'readwrite');
+  const imageStore = tx.objectStore(IMAGE_STORE);
+  const keysRequest = imageStore.getAllKeys(projectImages(id));
+  keysRequest.onsuccess = () => {
+    const storedIds = new Set(keysRequest.result.map(key => (key as string[])[1]));
+    const currentIds = new Set(images.map(image => image.id));
+    images
+      .filter(image => !storedIds.has(image.id))
+      .forEach(image => imageStore.put({ projectId: id, id: image.id, url: image.url } as StoredImage));
+    storedIds.forEach(imageId => {
+      if (!currentIds.has(imageId)) imageStore.delete([id, imageId]);
+    });
+  };
+  tx.objectStore(PROJECT_STORE).put(record);
+  await transactionDone(tx);
+};
+
+// Saves run one after another so a slow thumbnail cannot let an older state overwrite a newer one
+let saveQueue: Promise<void> = Promise.resolve();
+
+export const saveProject = (id: string, name: string, state: AppState): Promise<void> => {
+  const run = saveQueue.then(() => writeProject(id, name, state));
+  saveQueue = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * The saved AppState with image URLs restored, or null if the project does not exist
+ */
+export const loadProject = async (id: string): Promise<AppState | null> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECT_STORE, IMAGE_STORE]);
+  const [record, storedImages] = await Promise.all([
+    requestResult(tx.objectStore(PROJECT_STORE).get(id)) as Promise<StoredProject | undefined>,
+    requestResult(tx.objectStore(IMAGE_STORE).getAll(projectImages(id))) as Promise<StoredImage[]>
+  ]);
+  if (!record) return null;
+
+  const urls = new Map(storedImages.map(image => [image.id, image.url] as const));
+  const restore = (images: GeneratedImage[]) => images
+    .map(image => ({ ...image, url: urls.get(image.id) || '' }))
+    .filter(image => image.url);
+
+  return {
+    ...record.state,
+    generatedImages: restore(record.state.generatedImages),
+    imageVersions: restore(record.state.imageVersions)
+  };
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const records = await requestResult(db.transaction(PROJECT_STORE).objectStore(PROJECT_STORE).getAll()) as StoredProject[];
+  return records
+    .map(({ id, name, mode, createdAt, updatedAt, slideCount, thumbnail }) => ({ id, name, mode, createdAt, updatedAt, slideCount, thumbnail }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Copies a project with all its images; returns the id of the copy
+ */
+export const duplicateProject = async (id: string): Promise<string> => {
+  await saveQueue;
+  const db = await openDb();
+  const readTx = db.transaction([PROJECT_STORE, IMAGE_STORE]);
+  const [record, storedImages] = await Promise.all([
+    requestResult(readTx.objectStore(PROJECT_STORE).get(id)) as Promise<StoredProject | undefined>,
+    requestResult(readTx.objectStore(IMAGE_STORE).getAll(projectImages(id))) as Promise<StoredImage[]>
+  ]);
+  if (!record) throw new Error('プロジェクトが見つかりません');
+
+  const copyId = createProjectId();
+  const now = Date.now();
+  const tx = db.transaction([PROJECT_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(PROJECT_STORE).put({ ...record, id: copyId, name: `${record.name} のコピー`, createdAt: now, updatedAt: now });
+  storedImages.forEach(image => tx.objectStore(IMAGE_STORE).put({ ...image, projectId: copyId }));
+  await transactionDone(tx);
+  return copyId;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await saveQueue;
+  const db = await openDb();
+  const tx = db.transaction([PROJECT_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(PROJECT_STORE).delete(id);
+  tx.objectStore(IMAGE_STORE).delete(projectImages(id));
+  await transactionDone(tx);
+  if (getLastProjectId() === id) setLastProjectId(null);
+};
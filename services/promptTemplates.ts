@@ -0,0 +1,273 @@
+/**
+ * Named, versioned prompt templates with {{variable}} interpolation.
+ * Bump a template's version whenever its default body changes so generated images
+ * can be traced back to the exact wording that produced them.
+ */
+
+import { PromptTemplateId, PromptTemplateOverrides } from "../types";
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  name: string;
+  version: number;
+  variables: string[];
+  body: string;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  version: string; // e.g. "outline@1" or "outline@1+custom.2"
+}
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplate> = {
+  suggestions: {
+    id: 'suggestions',
+    name: '改善提案',
+    version: 1,
+    variables: ['topic', 'languageName'],
+    body: `"{{topic}}"に関するプレゼンテーションスライドを視覚的に改善するための、具体的で短い3つのポイントを{{languageName}}で提案してください。
+レイアウト、色、明瞭さに焦点を当ててください。有効なJSON文字列配列として返してください。`
+  },
+  outline: {
+    id: 'outline',
+    name: 'ページ構成',
+    version: 2,
+    variables: ['topic', 'pageCount', 'complexity', 'talkDuration', 'languageInstruction'],
+    body: `あなたはプロのプレゼンテーション構成作家です。
+以下のテーマで{{pageCount}}枚のプレゼンテーション資料の構成を作成してください。
+
+テーマ: {{topic}}
+複雑さ: {{complexity}}
+発表時間: 約{{talkDuration}}分
+
+各ページについて、以下の要素を含むJSON配列を返してください:
+- pageNumber: ページ番号
+- title: スライドのタイトル
+- content: スライドの具体的なテキスト内容（箇条書きなど）
+- visualCue: 生成AIへの画像生成指示（視覚表現の具体的な説明）
+- emphasis: 強調ポイント
+- mood: 温度感（例：信頼感、危機感、希望など）
+- speakerNotes: 発表者がそのページで話す原稿（話し言葉。全ページ合計で約{{talkDuration}}分になるよう分量を配分）
+
+{{languageInstruction}}`
+  },
+  outlineRepair: {
+    id: 'outlineRepair',
+    name: 'ページ構成 (自動修復)',
+    version: 2,
+    variables: ['topic', 'pageCount', 'talkDuration', 'issues', 'response', 'languageInstruction'],
+    body: `先ほどのプレゼンテーション構成の応答に問題がありました。修正したJSON配列のみを返してください。
+
+テーマ: {{topic}}
+必要なページ数: {{pageCount}}枚（pageNumber は 1 から連番）
+
+検出された問題:
+{{issues}}
+
+各要素には pageNumber, title, content, visualCue, emphasis, mood, speakerNotes をすべて含め、空文字にしないでください。
+speakerNotes は全ページ合計で約{{talkDuration}}分の話し言葉の原稿にしてください。
+{{languageInstruction}}
+
+先ほどの応答:
+{{response}}`
+  },
+  pageRewrite: {
+    id: 'pageRewrite',
+    name: 'ページの書き直し',
+    version: 1,
+    variables: ['topic', 'outline', 'pageNumber', 'page', 'instruction', 'languageInstruction'],
+    body: `あなたはプロのプレゼンテーション構成作家です。
+以下のプレゼンテーション構成のうち、ページ{{pageNumber}}だけを指示に従って書き直してください。
+前後のページとの流れや重複に注意し、他のページの内容は変更しないでください。
+
+テーマ: {{topic}}
+
+全体の構成:
+{{outline}}
+
+書き直すページ:
+{{page}}
+
+指示: {{instruction}}
+
+pageNumber, title, content, visualCue, emphasis, mood, speakerNotes を含むJSONオブジェクトを1つだけ返してください。
+{{languageInstruction}}`
+  },
+  complexityStandard: {
+    id: 'complexityStandard',
+    name: '複雑さ: しっかり (標準)',
+    version: 1,
+    variables: [],
+    body: '標準的なビジネスインフォグラフィック。テキストとビジュアルのバランスが良い。プロフェッショナルで詳細。'
+  },
+  complexityLight: {
+    id: 'complexityLight',
+    name: '複雑さ: ライトめ',
+    version: 1,
+    variables: [],
+    body: '明るく軽やかなインフォグラフィック。余白を効果的に使用。清潔感がありモダン。'
+  },
+  complexitySimple: {
+    id: 'complexitySimple',
+    name: '複雑さ: 非常にシンプル',
+    version: 1,
+    variables: [],
+    body: '非常にシンプルなスライド。インパクト重視で詳細は省く。一つの重要なメッセージに焦点を当てる。'
+  },
+  infographic: {
+    id: 'infographic',
+    name: '1枚絵',
+    version: 1,
+    variables: ['topic', 'style', 'complexity', 'aspectRatio', 'languageName', 'languageInstruction'],
+    body: `高品質なプレゼンテーションスライドまたはインフォグラフィックを作成してください。
+テーマ: {{topic}}
+スタイル: {{style}}
+複雑さ: {{complexity}}
+プロフェッショナルなプレゼンテーションに適した画像にしてください。
+アスペクト比: {{aspectRatio}}
+言語: {{languageName}}
+{{languageInstruction}}`
+  },
+  animation: {
+    id: 'animation',
+    name: 'アニメーション (全体指示)',
+    version: 1,
+    variables: ['stepCount'],
+    body: `【重要】アニメーション用の連作スライドを作成してください。
+1枚の完成図を{{stepCount}}段階のステップに分割し、徐々に要素が増えていく、または変化していく様子を描写してください。
+例: Step 1: 背景と基本図形のみ -> Step 2: 矢印とアイコンが追加 -> Step 3: 詳細テキストと強調効果が追加。
+それぞれの画像が一連のアニメーションとして成立するように整合性を保ってください。`
+  },
+  animationStep: {
+    id: 'animationStep',
+    name: 'アニメーション (ステップ)',
+    version: 1,
+    variables: ['step', 'stepCount'],
+    body: 'これはアニメーションのステップ {{step}} / {{stepCount}} です。前のステップの要素を含みつつ、新しい情報を追加してください。'
+  },
+  animationChainStep: {
+    id: 'animationChainStep',
+    name: 'アニメーション (連続生成)',
+    version: 1,
+    variables: ['step', 'previousStep', 'stepCount'],
+    body: `これはアニメーションのステップ {{step}} / {{stepCount}} です。
+最初に提供された画像はステップ {{previousStep}} です。この画像のレイアウト、配色、既存要素の位置と大きさ、文字を一切変えずにそのまま残し、ステップ {{step}} で登場する新しい要素だけを追加してください。`
+  },
+  referenceStyle: {
+    id: 'referenceStyle',
+    name: '参考画像 (1枚絵)',
+    version: 1,
+    variables: [],
+    body: '提供された画像のスタイル、配色、トーン＆マナーを厳密に参考にしてください。'
+  },
+  presentationPage: {
+    id: 'presentationPage',
+    name: 'プレゼンページ',
+    version: 1,
+    variables: ['pageNumber', 'title', 'content', 'visualCue', 'emphasis', 'mood', 'style', 'languageInstruction'],
+    body: `プレゼンテーションスライドを作成してください。
+ページ: {{pageNumber}}
+タイトル: {{title}}
+内容: {{content}}
+
+視覚表現の指示: {{visualCue}}
+強調ポイント: {{emphasis}}
+温度感: {{mood}}
+スタイル: {{style}}
+
+{{languageInstruction}}インフォグラフィック要素を取り入れてください。`
+  },
+  textFreePage: {
+    id: 'textFreePage',
+    name: 'プレゼンページ (テキストレイヤー用背景)',
+    version: 1,
+    variables: ['pageNumber', 'title', 'content', 'visualCue', 'emphasis', 'mood', 'style', 'layoutInstruction'],
+    body: `プレゼンテーションスライドの背景とイラストを作成してください。タイトルと本文の文字は、後からアプリで正確に重ねます。
+【最重要】画像内に文字、数字、ロゴ、記号、グラフのラベルを一切描かないでください。
+
+ページ: {{pageNumber}}
+スライドの主題: {{title}}
+内容の要旨: {{content}}
+
+視覚表現の指示: {{visualCue}}
+強調ポイント: {{emphasis}}
+温度感: {{mood}}
+スタイル: {{style}}
+
+レイアウト: {{layoutInstruction}}`
+  },
+  pageReferenceStyle: {
+    id: 'pageReferenceStyle',
+    name: '参考画像 (プレゼン)',
+    version: 1,
+    variables: [],
+    body: '【最重要】提供された画像のスタイル（配色、フォントの雰囲気、アイコンのスタイル）を維持して、統一感のあるスライドセットの一部として作成してください。'
+  },
+  brandKit: {
+    id: 'brandKit',
+    name: 'ブランドキット',
+    version: 1,
+    variables: ['brandName', 'colors', 'fonts', 'dos', 'donts', 'logoInstruction'],
+    body: `【ブランドガイドライン: {{brandName}}】
+以下のブランドガイドラインに必ず従ってください。
+カラーパレット (これ以外の色は最小限にしてください):
+{{colors}}
+フォント: {{fonts}}
+守ること:
+{{dos}}
+避けること:
+{{donts}}
+{{logoInstruction}}`
+  },
+  edit: {
+    id: 'edit',
+    name: '画像編集',
+    version: 1,
+    variables: ['instruction', 'languageName'],
+    body: 'この画像を編集してください: {{instruction}}。全体的なレイアウトは維持しつつ、要求された変更を適用してください。追加・変更する文字は{{languageName}}にしてください。'
+  },
+  maskedEdit: {
+    id: 'maskedEdit',
+    name: '画像編集 (範囲指定)',
+    version: 1,
+    variables: ['instruction', 'languageName'],
+    body: `1枚目の画像を編集してください: {{instruction}}
+2枚目の画像は編集範囲のマスクです。白い部分だけに変更を加え、黒い部分は1枚目の画像から一切変えないでください。
+画像のサイズと構図は変えないでください。追加・変更する文字は{{languageName}}にしてください。`
+  }
+};
+
+// Per-project overrides, set by the app whenever the project's overrides change
+let activeOverrides: PromptTemplateOverrides = {};
+
+export const setPromptOverrides = (overrides: PromptTemplateOverrides) => {
+  activeOverrides = overrides;
+};
+
+/**
+ * Version label of the template as it is currently resolved (default or override)
+ */
+export const getTemplateVersion = (id: PromptTemplateId, overrides: PromptTemplateOverrides = activeOverrides): string => {
+  const template = DEFAULT_PROMPT_TEMPLATES[id];
+  const override = overrides[id];
+  return override ? `${id}@${template.version}+custom.${override.revision}` : `${id}@${template.version}`;
+};
+
+/**
+ * Replace {{name}} placeholders; unknown variables become empty strings
+ */
+export const interpolate = (body: string, variables: Record<string, string | number>): string =>
+  body.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) =>
+    variables[name] !== undefined ? String(variables[name]) : ''
+  );
+
+export const renderPrompt = (
+  id: PromptTemplateId,
+  variables: Record<string, string | number> = {}
+): RenderedPrompt => {
+  const body = activeOverrides[id]?.body ?? DEFAULT_PROMPT_TEMPLATES[id].body;
+  return {
+    text: interpolate(body, variables),
+    version: getTemplateVersion(id)
+  };
+};
@@ -0,0 +1,123 @@
+/**
+ * Request scheduler with a concurrency limit and retry on rate-limit/overload errors
+ */
+
+export interface SchedulerOptions {
+  concurrency: number; // Max requests in flight
+  maxRetries: number; // Retries after the first attempt
+  baseDelayMs: number; // Backoff for the first retry (doubled per attempt)
+  maxDelayMs: number; // Upper bound for a single backoff
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  concurrency: 3,
+  maxRetries: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000
+};
+
+// Environment variables that override DEFAULT_SCHEDULER_OPTIONS
+const ENV_OPTION_KEYS: Record<keyof SchedulerOptions, string> = {
+  concurrency: 'VITE_REQUEST_CONCURRENCY',
+  maxRetries: 'VITE_REQUEST_MAX_RETRIES',
+  baseDelayMs: 'VITE_REQUEST_BASE_DELAY_MS',
+  maxDelayMs: 'VITE_REQUEST_MAX_DELAY_MS'
+};
+
+/**
+ * Scheduler options set in the environment; missing or invalid values are ignored (concurrency must be at least 1)
+ */
+export const schedulerOptionsFromEnv = (env: Record<string, string | undefined>): Partial<SchedulerOptions> => {
+  const options: Partial<SchedulerOptions> = {};
+  (Object.keys(ENV_OPTION_KEYS) as Array<keyof SchedulerOptions>).forEach(key => {
+    const raw = env[ENV_OPTION_KEYS[key]]?.trim();
+    const value = Number(raw);
+    const min = key === 'concurrency' ? 1 : 0;
+    if (raw && Number.isFinite(value) && value >= min) options[key] = Math.floor(value);
+  });
+  return options;
+};
+
+const RETRYABLE_STATUS = [429, 500, 502, 503, 504];
+const RETRYABLE_MESSAGE = /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|rate limit/i;
+
+/**
+ * Whether an error is worth retrying (rate limit, server overload, transient network failure)
+ */
+export const isRetryableError = (error: any): boolean => {
+  if (typeof error?.status === 'number') {
+    return RETRYABLE_STATUS.includes(error.status);
+  }
+  if (error instanceof TypeError && /fetch|network/i.test(error.message)) {
+    return true;
+  }
+  return RETRYABLE_MESSAGE.test(error?.message || '');
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with jitter: half fixed, half random to spread out retries
+const backoffDelay = (attempt: number, options: SchedulerOptions): number => {
+  const cap = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return cap / 2 + Math.random() * (cap / 2);
+};
+
+export interface RequestScheduler {
+  run<T>(task: () => Promise<T>, label?: string): Promise<T>;
+  configure(options: Partial<SchedulerOptions>): void;
+  getOptions(): SchedulerOptions;
+}
+
+export const createRequestScheduler = (initialOptions: Partial<SchedulerOptions> = {}): RequestScheduler => {
+  let options: SchedulerOptions = { ...DEFAULT_SCHEDULER_OPTIONS, ...initialOptions };
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  const drain = () => {
+    while (active < options.concurrency && waiting.length > 0) {
+      active++;
+      waiting.shift()!();
+    }
+  };
+
+  const acquire = (): Promise<void> =>
+    new Promise(resolve => {
+      waiting.push(resolve);
+      drain();
+    });
+
+  const release = () => {
+    active--;
+    drain();
+  };
+
+  const run = async <T>(task: () => Promise<T>, label = 'request'): Promise<T> => {
+    await acquire();
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await task();
+        } catch (error) {
+          if (attempt >= options.maxRetries || !isRetryableError(error)) {
+            throw error;
+          }
+          const wait = backoffDelay(attempt, options);
+          console.warn(`${label} failed (attempt ${attempt + 1}/${options.maxRetries + 1}), retrying in ${Math.round(wait)}ms`, error);
+          // The slot stays held during backoff so a rate-limited burst doesn't refill immediately
+          await sleep(wait);
+        }
+      }
+    } finally {
+      release();
+    }
+  };
+
+  return {
+    run,
+    configure: (next) => {
+      options = { ...options, ...next, concurrency: Math.max(1, next.concurrency ?? options.concurrency) };
+      drain();
+    },
+    getOptions: () => ({ ...options })
+  };
+};
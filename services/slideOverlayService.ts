@@ -0,0 +1,140 @@
+import { GeneratedImage, OverlayPosition, SlideOverlaySettings } from "../types";
+import { createCanvas, loadImage } from "./canvasUtils";
+import { drawTextLayer } from "./textLayerService";
+
+/**
+ * Composites a real logo, page number, confidentiality footer and date onto generated slides,
+ * after flattening the slide's text layer (if any).
+ * The generated image itself is never modified; callers display and export the composited copy
+ * and keep sending the original to the model for edits.
+ */
+
+export const OVERLAY_POSITIONS: Array<{ value: OverlayPosition; label: string }> = [
+  { value: 'top-left', label: '左上' },
+  { value: 'top-center', label: '上中央' },
+  { value: 'top-right', label: '右上' },
+  { value: 'bottom-left', label: '左下' },
+  { value: 'bottom-center', label: '下中央' },
+  { value: 'bottom-right', label: '右下' }
+];
+
+export const DEFAULT_OVERLAY_SETTINGS: SlideOverlaySettings = {
+  logo: { enabled: false, image: null, position: 'top-right', heightPercent: 8 },
+  pageNumber: { enabled: false, position: 'bottom-right' },
+  footer: { enabled: false, text: '社外秘', position: 'bottom-left' },
+  date: { enabled: false, position: 'bottom-center' },
+  textColor: '#1F2937',
+  textBackground: true
+};
+
+export interface OverlayContext {
+  pageNumber?: number; // Presentation slides only
+  logo: string | null; // Resolved logo (custom upload or brand kit)
+  date: Date;
+}
+
+export const hasEnabledOverlay = (settings: SlideOverlaySettings, logo: string | null): boolean =>
+  (settings.logo.enabled && !!logo) || settings.pageNumber.enabled || (settings.footer.enabled && !!settings.footer.text.trim()) || settings.date.enabled;
+
+export const formatOverlayDate = (date: Date): string =>
+  `${date.getFullYear()}/${String(date.getMonth() + 1).padStart(2, '0')}/${String(date.getDate()).padStart(2, '0')}`;
+
+type OverlayItem =
+  | { kind: 'image'; image: HTMLImageElement; width: number; height: number }
+  | { kind: 'text'; text: string; width: number; height: number };
+
+const drawOverlays = async (image: GeneratedImage, settings: SlideOverlaySettings, context: OverlayContext): Promise<string> => {
+  const slide = await loadImage(image.url);
+  const width = slide.naturalWidth;
+  const height = slide.naturalHeight;
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(slide, 0, 0);
+  if (image.textLayer) {
+    await drawTextLayer(ctx, width, height, image.textLayer);
+  }
+
+  const fontSize = Math.max(12, Math.round(height * 0.028));
+  const padding = Math.round(fontSize * 0.4);
+  const gap = Math.round(fontSize * 0.8);
+  const marginX = Math.round(width * 0.025);
+  const marginY = Math.round(height * 0.03);
+  ctx.font = `bold ${fontSize}px sans-serif`;
+
+  const rows = new Map<OverlayPosition, OverlayItem[]>();
+  const add = (position: OverlayPosition, item: OverlayItem) => rows.set(position, [...(rows.get(position) || []), item]);
+  const addText = (position: OverlayPosition, text: string) =>
+    add(position, { kind: 'text', text, width: ctx.measureText(text).width + padding * 2, height: fontSize + padding * 2 });
+
+  if (settings.logo.enabled && context.logo) {
+    const logo = await loadImage(context.logo);
+    const logoHeight = Math.round(height * settings.logo.heightPercent / 100);
+    add(settings.logo.position, { kind: 'image', image: logo, width: logoHeight * logo.naturalWidth / logo.naturalHeight, height: logoHeight });
+  }
+  if (settings.footer.enabled && settings.footer.text.trim()) addText(settings.footer.position, settings.footer.text.trim());
+  if (settings.date.enabled) addText(settings.date.position, formatOverlayDate(context.date));
+  if (settings.pageNumber.enabled && context.pageNumber !== undefined) addText(settings.pageNumber.position, String(context.pageNumber));
+
+  // Items sharing a position are laid out side by side, vertically centered on the row
+  rows.forEach((items, position) => {
+    const [vertical, horizontal] = position.split('-');
+    const rowWidth = items.reduce((sum, item) => sum + item.width, 0) + gap * (items.length - 1);
+    const rowHeight = Math.max(...items.map(item => item.height));
+    let x = horizontal === 'left' ? marginX : horizontal === 'right' ? width - marginX - rowWidth : (width - rowWidth) / 2;
+    const rowTop = vertical === 'top' ? marginY : height - marginY - rowHeight;
+
+    for (const item of items) {
+      const top = rowTop + (rowHeight - item.height) / 2;
+      if (item.kind === 'image') {
+        ctx.drawImage(item.image, x, top, item.width, item.height);
+      } else {
+        if (settings.textBackground) {
+          ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+          ctx.fillRect(x, top, item.width, item.height);
+        }
+        ctx.fillStyle = settings.textColor;
+        ctx.textBaseline = 'middle';
+        ctx.fillText(item.text, x + padding, top + item.height / 2);
+      }
+      x += item.width + gap;
+    }
+  });
+
+  return canvas.toDataURL('image/png');
+};
+
+// Compositing is repeated for display and every export, so results are memoized per input
+const cache = new Map<string, Promise<string>>();
+const CACHE_LIMIT = 100;
+
+/**
+ * Data URL of the slide with its text layer and the enabled overlays, or the original URL when none apply
+ */
+export const applySlideOverlays = (
+  image: GeneratedImage,
+  settings: SlideOverlaySettings,
+  context: OverlayContext
+): Promise<string> => {
+  if (!image.textLayer && !hasEnabledOverlay(settings, context.logo)) return Promise.resolve(image.url);
+
+  const key = [
+    image.id,
+    JSON.stringify(image.textLayer ?? null),
+    JSON.stringify({ ...settings, logo: { ...settings.logo, image: null } }),
+    // Logo fingerprint; full data URLs are too large for cache keys
+    settings.logo.enabled ? `${context.logo?.length ?? 0}:${context.logo?.slice(-64) ?? ''}` : '',
+    context.pageNumber ?? '',
+    formatOverlayDate(context.date)
+  ].join('|');
+
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const result = drawOverlays(image, settings, context);
+  // Failed renders are not kept so they can be retried
+  result.catch(() => cache.delete(key));
+  cache.set(key, result);
+  if (cache.size > CACHE_LIMIT) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  return result;
+};
@@ -0,0 +1,136 @@
+import { PresentationPage, SlideTextLayer, TextLayerLayout } from "../types";
+import { wrapText } from "./canvasUtils";
+
+/**
+ * Text layer mode: the image model draws a text-free background and the app renders the
+ * exact title and content with web fonts, so Japanese copy is never garbled.
+ */
+
+interface Box {
+  x: number; // Fractions of the slide size
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface LayoutTemplate {
+  label: string;
+  promptHint: string; // Tells the model where to leave empty space
+  title: Box;
+  body: Box;
+  plate: boolean; // Default for new layers
+}
+
+export const TEXT_LAYER_LAYOUTS: Record<TextLayerLayout, LayoutTemplate> = {
+  left: {
+    label: '文字を左・イラストを右',
+    promptHint: '画面の左側45%は文字を載せるための無地で落ち着いた余白にし、イラストや図解は右側に配置してください。',
+    title: { x: 0.06, y: 0.08, width: 0.4, height: 0.2 },
+    body: { x: 0.06, y: 0.32, width: 0.4, height: 0.58 },
+    plate: false
+  },
+  right: {
+    label: '文字を右・イラストを左',
+    promptHint: '画面の右側45%は文字を載せるための無地で落ち着いた余白にし、イラストや図解は左側に配置してください。',
+    title: { x: 0.54, y: 0.08, width: 0.4, height: 0.2 },
+    body: { x: 0.54, y: 0.32, width: 0.4, height: 0.58 },
+    plate: false
+  },
+  center: {
+    label: '文字を中央・イラストを背景',
+    promptHint: '中央に文字を載せるため、中央部分は模様の少ない淡い背景にし、イラストは周囲や背景として控えめに配置してください。',
+    title: { x: 0.12, y: 0.1, width: 0.76, height: 0.16 },
+    body: { x: 0.16, y: 0.32, width: 0.68, height: 0.56 },
+    plate: true
+  }
+};
+
+export const TEXT_LAYER_FONTS: Array<{ value: string; label: string }> = [
+  { value: "'Noto Sans JP', sans-serif", label: 'ゴシック (Noto Sans JP)' },
+  { value: "'Noto Serif JP', serif", label: '明朝 (Noto Serif JP)' },
+  { value: "'M PLUS Rounded 1c', sans-serif", label: '丸ゴシック (M PLUS Rounded 1c)' }
+];
+
+export const createTextLayer = (layout: TextLayerLayout, page: PresentationPage): SlideTextLayer => ({
+  layout,
+  title: page.title,
+  content: page.content,
+  fontFamily: TEXT_LAYER_FONTS[0].value,
+  textColor: '#111827',
+  plate: TEXT_LAYER_LAYOUTS[layout].plate
+});
+
+const TITLE_LINE_HEIGHT = 1.25;
+const BODY_LINE_HEIGHT = 1.5;
+
+// Largest font size (stepping down 8%) at which the text fits the box; truncated at the minimum size
+const fitText = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  font: (size: number) => string,
+  box: { width: number; height: number },
+  maxSize: number,
+  minSize: number,
+  lineHeight: number
+): { size: number; lines: string[] } => {
+  for (let size = maxSize; size > minSize; size *= 0.92) {
+    ctx.font = font(size);
+    const lines = wrapText(ctx, text, box.width, Infinity);
+    if (lines.length * size * lineHeight <= box.height) return { size, lines };
+  }
+  ctx.font = font(minSize);
+  return { size: minSize, lines: wrapText(ctx, text, box.width, Math.max(1, Math.floor(box.height / (minSize * lineHeight)))) };
+};
+
+/**
+ * Draw the text layer onto a canvas that already holds the slide image
+ */
+export const drawTextLayer = async (ctx: CanvasRenderingContext2D, width: number, height: number, layer: SlideTextLayer) => {
+  const template = TEXT_LAYER_LAYOUTS[layer.layout];
+  const titleFont = (size: number) => `bold ${size}px ${layer.fontFamily}`;
+  const bodyFont = (size: number) => `${size}px ${layer.fontFamily}`;
+
+  // Web fonts load lazily (and per unicode-range subset), so request the glyphs before drawing
+  if (document.fonts) {
+    await Promise.all([
+      document.fonts.load(titleFont(32), layer.title),
+      document.fonts.load(bodyFont(32), layer.content)
+    ]).catch(error => console.warn('Web font loading failed, falling back', error));
+  }
+
+  const toPixels = (box: Box) => ({ x: box.x * width, y: box.y * height, width: box.width * width, height: box.height * height });
+  const titleBox = toPixels(template.title);
+  const bodyBox = toPixels(template.body);
+  const center = layer.layout === 'center';
+
+  if (layer.plate) {
+    const padding = height * 0.03;
+    const left = Math.min(titleBox.x, bodyBox.x) - padding;
+    const top = titleBox.y - padding;
+    const right = Math.max(titleBox.x + titleBox.width, bodyBox.x + bodyBox.width) + padding;
+    const bottom = bodyBox.y + bodyBox.height + padding;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.beginPath();
+    ctx.roundRect(left, top, right - left, bottom - top, padding);
+    ctx.fill();
+  }
+
+  ctx.fillStyle = layer.textColor;
+  ctx.textBaseline = 'top';
+  ctx.textAlign = center ? 'center' : 'left';
+
+  const title = fitText(ctx, layer.title, titleFont, titleBox, height * 0.075, height * 0.035, TITLE_LINE_HEIGHT);
+  ctx.font = titleFont(title.size);
+  const titleX = center ? titleBox.x + titleBox.width / 2 : titleBox.x;
+  // Titles sit at the bottom of their box, close to the body
+  const titleTop = titleBox.y + titleBox.height - title.lines.length * title.size * TITLE_LINE_HEIGHT;
+  title.lines.forEach((line, index) => ctx.fillText(line, titleX, titleTop + index * title.size * TITLE_LINE_HEIGHT));
+
+  const body = fitText(ctx, layer.content, bodyFont, bodyBox, height * 0.045, height * 0.02, BODY_LINE_HEIGHT);
+  ctx.font = bodyFont(body.size);
+  ctx.textAlign = 'left';
+  // Centered layouts keep bullets left-aligned but center the block
+  const blockWidth = center ? Math.max(0, ...body.lines.map(line => ctx.measureText(line).width)) : 0;
+  const bodyX = center ? bodyBox.x + (bodyBox.width - blockWidth) / 2 : bodyBox.x;
+  body.lines.forEach((line, index) => ctx.fillText(line, bodyX, bodyBox.y + index * body.size * BODY_LINE_HEIGHT));
+};
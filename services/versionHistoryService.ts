@@ -0,0 +1,77 @@
+import { GeneratedImage } from "../types";
+
+/**
+ * Edit history: every edit or regeneration is a child version of the image it came from.
+ * generatedImages holds the version currently shown in each slot; all other versions
+ * are kept in imageVersions so the whole tree can be browsed and restored.
+ */
+
+export interface VersionNode {
+  image: GeneratedImage;
+  depth: number;
+  isCurrent: boolean;
+}
+
+export interface VersionedImages {
+  generatedImages: GeneratedImage[];
+  imageVersions: GeneratedImage[];
+}
+
+const findRoot = (image: GeneratedImage, byId: Map<string, GeneratedImage>): GeneratedImage => {
+  let root = image;
+  const seen = new Set<string>();
+  while (root.parentId && byId.has(root.parentId) && !seen.has(root.id)) {
+    seen.add(root.id);
+    root = byId.get(root.parentId) as GeneratedImage;
+  }
+  return root;
+};
+
+/**
+ * All versions related to the current image, depth-first from the original, oldest child first
+ */
+export const getVersionTree = (current: GeneratedImage, versions: GeneratedImage[]): VersionNode[] => {
+  const all = [current, ...versions.filter(version => version.id !== current.id)];
+  const byId = new Map(all.map(image => [image.id, image] as const));
+  const root = findRoot(current, byId);
+
+  const children = new Map<string, GeneratedImage[]>();
+  all.forEach(image => {
+    if (!image.parentId) return;
+    children.set(image.parentId, [...(children.get(image.parentId) || []), image]);
+  });
+
+  const nodes: VersionNode[] = [];
+  const visit = (image: GeneratedImage, depth: number) => {
+    nodes.push({ image, depth, isCurrent: image.id === current.id });
+    [...(children.get(image.id) || [])]
+      .sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0))
+      .forEach(child => visit(child, depth + 1));
+  };
+  visit(root, 0);
+  return nodes;
+};
+
+/**
+ * An edit result as a child version of `source`, inheriting the slot metadata so it can take the source's place
+ */
+export const createEditVersion = (source: GeneratedImage, edited: GeneratedImage, editInstruction: string): GeneratedImage => ({
+  ...edited,
+  pageId: source.pageId,
+  animationStep: source.animationStep,
+  textLayer: source.textLayer,
+  parentId: source.id,
+  editInstruction
+});
+
+/**
+ * Show `next` in the slot of `currentId`, keeping the slot's position and archiving the image it replaces
+ */
+export const replaceInSlot = (state: VersionedImages, currentId: string, next: GeneratedImage): VersionedImages => {
+  const current = state.generatedImages.find(image => image.id === currentId);
+  if (!current) return state;
+  return {
+    generatedImages: state.generatedImages.map(image => image.id === currentId ? next : image),
+    imageVersions: [...state.imageVersions.filter(version => version.id !== next.id && version.id !== current.id), current]
+  };
+};
@@ -8,15 +8,80 @@ export interface GeneratedImage {
   id: string;
   url: string; // Base64 data URL
   promptUsed: string;
+  templateVersion?: string; // Prompt templates behind promptUsed, e.g. "presentationPage@1, pageReferenceStyle@1"
+  pageId?: string; // Presentation mode: id of the PresentationPage this slide renders
+  animationStep?: number; // Animation mode: 1-based build step this image shows
+  textLayer?: SlideTextLayer; // Text-free image; the real title/content are drawn by the app
+  output?: ImageOutputOptions; // Aspect ratio and size it was generated at; edits keep these
+  createdAt?: number; // Epoch ms
+  parentId?: string; // Version history: the image this one was edited or regenerated from
+  editInstruction?: string; // Version history: what changed relative to the parent
+}
+
+export type TextLayerLayout = 'left' | 'right' | 'center';
+
+export interface SlideTextLayer {
+  layout: TextLayerLayout;
+  title: string;
+  content: string;
+  fontFamily: string; // CSS font-family of a web font loaded in index.html
+  textColor: string;
+  plate: boolean; // Translucent white panel behind the text
+}
+
+export type BatchEditStatus = 'pending' | 'done' | 'failed' | 'accepted' | 'discarded';
+
+// One slide of a batch edit; the result stays a candidate until accepted into the slot
+export interface BatchEditItem {
+  sourceId: string; // Image the instruction was applied to
+  status: BatchEditStatus;
+  result?: GeneratedImage; // Candidate version (parentId = sourceId)
+  error?: string;
 }
 
 export interface PresentationPage {
+  id: string; // Stable across edits/reordering, used to associate generated slides
   pageNumber: number;
   title: string;
   content: string;
   visualCue: string;
   emphasis: string;
   mood: string;
+  speakerNotes: string; // What the presenter says on this slide
+}
+
+export interface BrandColor {
+  name: string; // e.g. "メインカラー"
+  hex: string; // "#RRGGBB"
+}
+
+export interface BrandKit {
+  id: string;
+  name: string;
+  colors: BrandColor[];
+  fonts: string; // Font direction, e.g. "見出しは太めのゴシック体、本文は細めのゴシック体"
+  logo: string | null; // Base64 data URL
+  dos: string[];
+  donts: string[];
+  defaultComplexity: Complexity;
+}
+
+export type OverlayPosition = 'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+// Composited onto slides locally after generation, so placement is exact
+export interface SlideOverlaySettings {
+  logo: { enabled: boolean; image: string | null; position: OverlayPosition; heightPercent: number }; // image null = brand kit logo
+  pageNumber: { enabled: boolean; position: OverlayPosition };
+  footer: { enabled: boolean; text: string; position: OverlayPosition };
+  date: { enabled: boolean; position: OverlayPosition };
+  textColor: string;
+  textBackground: boolean; // Translucent white plate behind texts for legibility
+}
+
+export enum OutputLanguage {
+  JAPANESE = 'ja',
+  ENGLISH = 'en',
+  BILINGUAL = 'ja-en'
 }
 
 export enum AppMode {
@@ -40,10 +105,58 @@ export interface AppState {
   referenceImage: string | null; // Base64
   presentationOutline: PresentationPage[];
   isAnimationMode: boolean; // For single slide split/animation
+  isSequentialAnimation: boolean; // Animation mode: generate steps in order, each from the previous step's image
+  aspectRatio: ImageAspect;
+  imageSize: ImageSize;
+  language: OutputLanguage; // Language for outlines, slide text and suggestions
+  promptOverrides: PromptTemplateOverrides; // Per-project edits of the default prompt templates
+  talkDurationMinutes: number; // Target length of the talk, used to size speaker notes
+  brandKitId: string | null; // Selected brand kit (kits themselves are stored locally, not per project)
+  overlay: SlideOverlaySettings; // Logo, page number, footer and date composited onto every slide
+  textLayerLayout: TextLayerLayout | null; // Presentation mode: render slide text in the app instead of the image (null = off)
+  imageVersions: GeneratedImage[]; // Earlier versions of the images in generatedImages (edit/revert history)
 }
 
 export enum ImageAspect {
   SQUARE = '1:1',
   LANDSCAPE = '16:9',
   PORTRAIT = '9:16'
-}
\ No newline at end of file
+}
+
+export enum ImageSize {
+  STANDARD = '1K',
+  HIGH = '2K',
+  PRINT = '4K'
+}
+
+export interface ImageOutputOptions {
+  aspectRatio: ImageAspect;
+  imageSize: ImageSize;
+}
+
+export type PromptTemplateId =
+  | 'suggestions'
+  | 'outline'
+  | 'outlineRepair'
+  | 'pageRewrite'
+  | 'complexityStandard'
+  | 'complexityLight'
+  | 'complexitySimple'
+  | 'infographic'
+  | 'animation'
+  | 'animationStep'
+  | 'animationChainStep'
+  | 'referenceStyle'
+  | 'presentationPage'
+  | 'textFreePage'
+  | 'pageReferenceStyle'
+  | 'brandKit'
+  | 'edit'
+  | 'maskedEdit';
+
+export interface PromptTemplateOverride {
+  body: string;
+  revision: number; // Incremented on every save of the override
+}
+
+export type PromptTemplateOverrides = Partial<Record<PromptTemplateId, PromptTemplateOverride>>;
@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GEMINI_API_KEY?: string;
+  readonly VITE_AI_PROVIDER?: string; // 'gemini' (default) or 'mock'
+  readonly VITE_GOOGLE_CLIENT_ID?: string;
+  readonly VITE_GOOGLE_API_KEY?: string;
+  readonly VITE_REQUEST_CONCURRENCY?: string;
+  readonly VITE_REQUEST_MAX_RETRIES?: string;
+  readonly VITE_REQUEST_BASE_DELAY_MS?: string;
+  readonly VITE_REQUEST_MAX_DELAY_MS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}